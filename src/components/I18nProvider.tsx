@@ -0,0 +1,21 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { I18nContext } from "@/hooks/use-i18n";
+import { createTranslator, detectUiLocale, resolveUiLocale, type UiLocale } from "@/lib/i18n";
+import { loadLanguagePreference } from "@/lib/voice/languages";
+
+// Starts from the saved conversation language, else the browser's; the assistant keeps it in sync afterwards
+function initialLocale(): UiLocale {
+  const preference = loadLanguagePreference();
+  return preference === "auto" ? detectUiLocale() : resolveUiLocale(preference);
+}
+
+export default function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocale] = useState<UiLocale>(initialLocale);
+  const value = useMemo(() => ({ ...createTranslator(locale), setLocale }), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
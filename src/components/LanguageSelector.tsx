@@ -0,0 +1,40 @@
+import { Languages } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  getLanguage,
+  SUPPORTED_LANGUAGES,
+  type LanguageCode,
+  type LanguagePreference,
+} from "@/lib/voice/languages";
+
+interface LanguageSelectorProps {
+  value: LanguagePreference;
+  activeLanguage: LanguageCode;
+  onChange: (value: LanguagePreference) => void;
+}
+
+export default function LanguageSelector({ value, activeLanguage, onChange }: LanguageSelectorProps) {
+  const { t } = useI18n();
+
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as LanguagePreference)}>
+      <SelectTrigger
+        aria-label={t("language.label")}
+        className="w-48 border-white/30 bg-white/10 text-white backdrop-blur-xl focus:ring-white/40"
+      >
+        <Languages className="mr-2 h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="auto">{t("language.auto", { language: getLanguage(activeLanguage).nativeLabel })}</SelectItem>
+        {SUPPORTED_LANGUAGES.map((language) => (
+          <SelectItem key={language.code} value={language.code}>
+            {language.nativeLabel}
+            {language.nativeLabel !== language.label && ` · ${language.label}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
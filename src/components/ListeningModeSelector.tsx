@@ -0,0 +1,47 @@
+import { Ear, Hand, Radio } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useI18n } from "@/hooks/use-i18n";
+import { isListeningMode, type ListeningMode } from "@/lib/voice/listening-mode";
+
+interface ListeningModeSelectorProps {
+  value: ListeningMode;
+  onChange: (value: ListeningMode) => void;
+}
+
+export default function ListeningModeSelector({ value, onChange }: ListeningModeSelectorProps) {
+  const { t } = useI18n();
+
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={value}
+      // Radix reports "" when the active item is clicked again; keep the current mode then
+      onValueChange={(next) => isListeningMode(next) && onChange(next)}
+      aria-label={t("mode.label")}
+      className="rounded-md border border-white/30 bg-white/10 p-1 text-white backdrop-blur-xl"
+    >
+      <ToggleGroupItem
+        value="continuous"
+        className="gap-1.5 hover:bg-white/10 hover:text-white data-[state=on]:bg-white/25 data-[state=on]:text-white"
+      >
+        <Radio className="h-4 w-4" />
+        {t("mode.continuous")}
+      </ToggleGroupItem>
+      <ToggleGroupItem
+        value="push-to-talk"
+        className="gap-1.5 hover:bg-white/10 hover:text-white data-[state=on]:bg-white/25 data-[state=on]:text-white"
+      >
+        <Hand className="h-4 w-4" />
+        {t("mode.pushToTalk")}
+      </ToggleGroupItem>
+      <ToggleGroupItem
+        value="wake-word"
+        className="gap-1.5 hover:bg-white/10 hover:text-white data-[state=on]:bg-white/25 data-[state=on]:text-white"
+      >
+        <Ear className="h-4 w-4" />
+        {t("mode.wakeWord")}
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
@@ -0,0 +1,83 @@
+import { Mic, MicOff, RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import { detectBrowserFamily, type BrowserFamily } from "@/lib/voice/mic-permission";
+
+export type MicPermissionView = "onboarding" | "denied";
+
+const DENIED_INSTRUCTIONS: Record<BrowserFamily, MessageKey> = {
+  chrome: "permission.denied.chrome",
+  edge: "permission.denied.edge",
+  firefox: "permission.denied.firefox",
+  safari: "permission.denied.safari",
+  other: "permission.denied.other",
+};
+
+interface MicPermissionDialogProps {
+  view: MicPermissionView | null;
+  /** Whether the browser prompt is open after pressing allow. */
+  requesting: boolean;
+  onAllow: () => void;
+  onClose: () => void;
+}
+
+export default function MicPermissionDialog({ view, requesting, onAllow, onClose }: MicPermissionDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={view !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        {view === "denied" ? (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <MicOff className="h-5 w-5 text-destructive" />
+                {t("permission.denied.title")}
+              </DialogTitle>
+              <DialogDescription>{t("permission.denied.description")}</DialogDescription>
+            </DialogHeader>
+            <p className="rounded-md bg-muted px-4 py-3 text-sm">{t(DENIED_INSTRUCTIONS[detectBrowserFamily()])}</p>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                {t("permission.notNow")}
+              </Button>
+              <Button onClick={() => window.location.reload()}>
+                <RotateCw className="mr-1 h-4 w-4" />
+                {t("permission.reload")}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Mic className="h-5 w-5 text-primary" />
+                {t("permission.onboarding.title")}
+              </DialogTitle>
+              <DialogDescription>{t("permission.onboarding.description")}</DialogDescription>
+            </DialogHeader>
+            <p className="text-sm text-muted-foreground">{t("permission.onboarding.prompt")}</p>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                {t("permission.notNow")}
+              </Button>
+              <Button onClick={onAllow} disabled={requesting}>
+                <Mic className="mr-1 h-4 w-4" />
+                {t("permission.allow")}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from "react";
+import { WAVEFORM_SIZE } from "@/lib/voice/audio-sink";
+
+// Input levels between these map onto the ring's full range
+const METER_FLOOR_DB = -70;
+const METER_CEILING_DB = -20;
+// Room around the mic button the ring and waveform can grow into, in CSS pixels
+const MARGIN = 24;
+const WAVEFORM_POINTS = 96;
+
+interface MicVisualizerProps {
+  /** Draw the input level ring. */
+  listening: boolean;
+  /** Draw the output waveform. */
+  speaking: boolean;
+  getInputLevel: () => number;
+  getOutputWaveform: (samples: Float32Array) => boolean;
+}
+
+function toUnit(levelDb: number) {
+  return Math.min(Math.max((levelDb - METER_FLOOR_DB) / (METER_CEILING_DB - METER_FLOOR_DB), 0), 1);
+}
+
+export default function MicVisualizer({ listening, speaking, getInputLevel, getOutputWaveform }: MicVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The animation loop runs for the component's lifetime and reads the latest props from here
+  const propsRef = useRef({ listening, speaking, getInputLevel, getOutputWaveform });
+  propsRef.current = { listening, speaking, getInputLevel, getOutputWaveform };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const samples = new Float32Array(WAVEFORM_SIZE);
+    let level = 0;
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { listening, speaking, getInputLevel, getOutputWaveform } = propsRef.current;
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      context.clearRect(0, 0, width, height);
+
+      const centerX = width / 2;
+      const centerY = height / 2;
+      const margin = MARGIN * ratio;
+      const radius = Math.min(width, height) / 2 - margin;
+
+      // Rises with the voice at once and falls back gently, like a VU meter
+      const target = listening ? toUnit(getInputLevel()) : 0;
+      level += (target - level) * (target > level ? 0.5 : 0.12);
+      if (level > 0.01) {
+        context.beginPath();
+        context.arc(centerX, centerY, radius + level * margin * 0.8, 0, 2 * Math.PI);
+        context.strokeStyle = `rgba(96, 165, 250, ${0.35 + 0.55 * level})`;
+        context.lineWidth = (2 + level * 6) * ratio;
+        context.stroke();
+      }
+
+      if (speaking && getOutputWaveform(samples)) {
+        context.beginPath();
+        for (let point = 0; point <= WAVEFORM_POINTS; point++) {
+          const sample = samples[Math.floor(((point % WAVEFORM_POINTS) * samples.length) / WAVEFORM_POINTS)];
+          const angle = (point / WAVEFORM_POINTS) * 2 * Math.PI - Math.PI / 2;
+          const distance = radius + 4 * ratio + Math.min(Math.abs(sample) * 2, 1) * (margin - 6 * ratio);
+          const x = centerX + Math.cos(angle) * distance;
+          const y = centerY + Math.sin(angle) * distance;
+          if (point === 0) context.moveTo(x, y);
+          else context.lineTo(x, y);
+        }
+        context.strokeStyle = "rgba(74, 222, 128, 0.9)";
+        context.lineWidth = 2 * ratio;
+        context.stroke();
+      }
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      aria-hidden="true"
+      className="pointer-events-none absolute"
+      style={{ inset: -MARGIN }}
+    />
+  );
+}
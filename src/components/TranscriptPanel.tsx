@@ -0,0 +1,103 @@
+import { useEffect, useRef } from "react";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useI18n } from "@/hooks/use-i18n";
+import type { Translator } from "@/lib/i18n";
+import type { HistoryTurn } from "@/lib/voice/conversation-history";
+
+interface TranscriptPanelProps {
+  turns: HistoryTurn[];
+  onClear: () => void;
+}
+
+function formatLatency({ t, formatNumber }: Translator, latencyMs: number) {
+  if (latencyMs < 1000) return t("history.latencyMs", { ms: latencyMs });
+  return t("history.latencySeconds", {
+    seconds: formatNumber(latencyMs / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+  });
+}
+
+function replyLabel({ t }: Translator, turn: HistoryTurn) {
+  if (turn.replyText) return turn.replyText;
+  switch (turn.status) {
+    case "pending":
+      return t("history.thinking");
+    case "failed":
+      return t("history.failed");
+    case "cancelled":
+      return t("history.cancelled");
+    default:
+      return t("history.spokenReply");
+  }
+}
+
+export default function TranscriptPanel({ turns, onClear }: TranscriptPanelProps) {
+  const i18n = useI18n();
+  const { t, formatCurrency } = i18n;
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [turns]);
+
+  if (turns.length === 0) return null;
+
+  return (
+    <Card className="mt-8 w-full max-w-xl backdrop-blur-xl bg-white/10 border-white/20 text-white shadow-xl animate-fade-in">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 px-5 py-3">
+        <CardTitle className="text-base font-semibold">
+          {t("history.title")}
+          <span className="ml-2 text-xs font-normal text-white/60">
+            {t("history.turnCount", { count: turns.length })}
+          </span>
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          className="text-white/80 hover:bg-white/10 hover:text-white"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          {t("history.clear")}
+        </Button>
+      </CardHeader>
+      <CardContent className="px-5 pb-4">
+        <ScrollArea className="h-64 pr-3">
+          <div className="space-y-3">
+            {turns.map((turn) => (
+              <div key={turn.key} className="space-y-1.5">
+                <div className="ml-auto w-fit max-w-[85%] rounded-2xl bg-blue-500/30 px-4 py-2 text-sm">
+                  <p>{turn.userText}</p>
+                  <p className="mt-0.5 text-right text-[11px] text-white/60">{format(turn.askedAt, "HH:mm:ss")}</p>
+                </div>
+                <div
+                  className={`w-fit max-w-[85%] rounded-2xl px-4 py-2 text-sm ${
+                    turn.status === "failed" ? "bg-red-500/30" : "bg-green-500/30"
+                  }`}
+                >
+                  <p className={turn.replyText ? "" : "italic text-white/70"}>{replyLabel(i18n, turn)}</p>
+                  {turn.orderTotal !== undefined && (
+                    <p className="mt-1 font-semibold">
+                      {t("history.orderTotal", { amount: formatCurrency(turn.orderTotal) })}
+                    </p>
+                  )}
+                  {(turn.answeredAt || turn.interrupted) && (
+                    <p className="mt-0.5 text-[11px] text-white/60">
+                      {turn.answeredAt && format(turn.answeredAt, "HH:mm:ss")}
+                      {turn.latencyMs !== undefined && ` · ${formatLatency(i18n, turn.latencyMs)}`}
+                      {turn.interrupted && ` · ${t("history.interrupted")}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
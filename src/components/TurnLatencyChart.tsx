@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import { summarizeTurnTimings, type TurnStage, type TurnTiming } from "@/lib/voice/turn-metrics";
+
+const STAGE_LABELS: Record<TurnStage, MessageKey> = {
+  "request-sent": "latency.requestSent",
+  "first-byte": "latency.firstByte",
+  "full-body": "latency.fullBody",
+  "playback-start": "latency.playbackStart",
+  "playback-end": "latency.playbackEnd",
+};
+
+interface TurnLatencyChartProps {
+  timings: TurnTiming[];
+}
+
+/** p50/p95 time from the end of the customer's utterance to each stage of recent turns */
+export default function TurnLatencyChart({ timings }: TurnLatencyChartProps) {
+  const { t } = useI18n();
+  const stats = useMemo(() => summarizeTurnTimings(timings), [timings]);
+
+  const config = useMemo<ChartConfig>(
+    () => ({
+      p50: { label: t("latency.p50"), color: "hsl(var(--primary))" },
+      p95: { label: t("latency.p95"), color: "hsl(var(--primary) / 0.4)" },
+    }),
+    [t],
+  );
+
+  if (stats.length === 0) return <p className="text-xs text-muted-foreground">{t("latency.empty")}</p>;
+
+  const data = stats.map((stat) => ({ ...stat, label: t(STAGE_LABELS[stat.stage]) }));
+
+  return (
+    <div className="space-y-1">
+      <ChartContainer config={config} className="aspect-auto h-48 w-full">
+        <BarChart data={data} margin={{ left: -12, right: 4 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={10} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            tickFormatter={(ms: number) => t("history.latencyMs", { ms })}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                formatter={(value, name) => (
+                  <span>
+                    {config[name as string]?.label}: {t("history.latencyMs", { ms: Number(value) })}
+                  </span>
+                )}
+              />
+            }
+          />
+          <Bar dataKey="p50" fill="var(--color-p50)" radius={2} />
+          <Bar dataKey="p95" fill="var(--color-p95)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        {t("latency.turns", { count: timings.length })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState, type FormEvent } from "react";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/hooks/use-i18n";
+
+interface TypedMessageFormProps {
+  /** Returns false when the message could not be sent, so it stays in the box. */
+  onSend: (text: string) => boolean;
+}
+
+export default function TypedMessageForm({ onSend }: TypedMessageFormProps) {
+  const { t } = useI18n();
+  const [text, setText] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (message && onSend(message)) setText("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 flex w-full max-w-xl gap-2">
+      <Input
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        placeholder={t("typed.placeholder")}
+        aria-label={t("typed.placeholder")}
+        autoFocus
+        className="border-white/30 bg-white/10 text-white placeholder:text-white/60 backdrop-blur-xl focus-visible:ring-white/40"
+      />
+      <Button type="submit" disabled={!text.trim()} className="shrink-0">
+        <Send className="mr-1 h-4 w-4" />
+        {t("typed.send")}
+      </Button>
+    </form>
+  );
+}
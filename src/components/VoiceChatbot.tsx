@@ -1,431 +1,220 @@
-import { useState, useRef, useEffect } from "react";
-import { Mic, MicOff, Volume2, Loader2 } from "lucide-react";
+import { useCallback, useEffect, useRef, useState, type MouseEvent, type PointerEvent } from "react";
+import { Bug, Ear, Mic, MicOff, Volume2, Loader2 } from "lucide-react";
+import LanguageSelector from "@/components/LanguageSelector";
+import ListeningModeSelector from "@/components/ListeningModeSelector";
+import MicPermissionDialog, { type MicPermissionView } from "@/components/MicPermissionDialog";
+import MicVisualizer from "@/components/MicVisualizer";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import TypedMessageForm from "@/components/TypedMessageForm";
+import VoiceDebugSheet from "@/components/VoiceDebugSheet";
+import VoiceUnavailableNotice from "@/components/VoiceUnavailableNotice";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLanguagePreference } from "@/hooks/use-language-preference";
+import { useListeningMode } from "@/hooks/use-listening-mode";
+import { useMicPermission } from "@/hooks/use-mic-permission";
 import { useToast } from "@/hooks/use-toast";
+import { useVoiceAssistant } from "@/hooks/use-voice-assistant";
+import { useVoiceEndpoint } from "@/hooks/use-voice-endpoint";
+import { resolveUiLocale, type MessageKey } from "@/lib/i18n";
+import { createLogger, getLogLevel, isDebugRequested } from "@/lib/logger";
+import type { VoiceError, VoiceErrorCategory } from "@/lib/voice/voice-errors";
 
-const TEST_URL = "https://spacecadet4.app.n8n.cloud/webhook-test/voice-reply";
-const PRODUCTION_URL = "https://spacecadet4.app.n8n.cloud/webhook/voice-reply";
+const ERROR_MESSAGES: Record<VoiceErrorCategory, { title: MessageKey; description: MessageKey }> = {
+  "mic-permission": { title: "error.micPermission.title", description: "error.micPermission.description" },
+  "mic-unavailable": { title: "error.micUnavailable.title", description: "error.micUnavailable.description" },
+  "no-speech": { title: "error.noSpeech.title", description: "error.noSpeech.description" },
+  "speech-network": { title: "error.speechNetwork.title", description: "error.speechNetwork.description" },
+  "speech-language": { title: "error.speechLanguage.title", description: "error.speechLanguage.description" },
+  "speech-failed": { title: "error.speechFailed.title", description: "error.speechFailed.description" },
+  "backend-offline": { title: "error.backendOffline.title", description: "error.backendOffline.description" },
+  "backend-timeout": { title: "error.backendTimeout.title", description: "error.backendTimeout.description" },
+  "backend-busy": { title: "error.backendBusy.title", description: "error.backendBusy.description" },
+  "backend-server": { title: "error.backendServer.title", description: "error.backendServer.description" },
+  "backend-rejected": { title: "error.backendRejected.title", description: "error.backendRejected.description" },
+  "backend-invalid": { title: "error.backendInvalid.title", description: "error.backendInvalid.description" },
+  "playback-blocked": { title: "error.playbackBlocked.title", description: "error.playbackBlocked.description" },
+  "playback-failed": { title: "error.playbackFailed.title", description: "error.playbackFailed.description" },
+};
 
-export default function VoiceChatbot() {
-  const [isRecording, setIsRecording] = useState(false);
-  const [isAiSpeaking, setIsAiSpeaking] = useState(false);
-  const [isResponding, setIsResponding] = useState(false);
-  const [isEnabled, setIsEnabled] = useState(false);
-  const [userTranscript, setUserTranscript] = useState("");
-  const [aiResponse, setAiResponse] = useState("");
-  const { toast } = useToast();
-  
-  const recognitionRef = useRef<any>(null);
-  const currentAudioRef = useRef<HTMLAudioElement | null>(null);
-  const pendingInterruptionRef = useRef(false);
-  const reinitTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const isListeningRef = useRef(false);
-  const isEnabledRef = useRef(false);
-  const micAlreadyRestartedRef = useRef(false);
-
-  useEffect(() => {
-    // Initialize Speech Recognition
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
-      recognitionRef.current = new SpeechRecognition();
-      // Enable continuous recognition for interruption capability
-      recognitionRef.current.continuous = true;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = 'en-US';
+const log = createLogger("voice:ui");
+// ?debug shows a button for the debug panel; without it, tapping the title quickly opens it
+const SHOW_DEBUG_BUTTON = isDebugRequested();
+const DEBUG_TAP_COUNT = 5;
+const DEBUG_TAP_WINDOW = 3000;
 
-      recognitionRef.current.onresult = async (event: any) => {
-        const transcript = event.results[event.results.length - 1][0].transcript;
-        console.log('✅ Speech recognized:', transcript);
-        
-        // Check if AI is speaking - if so, interrupt immediately
-        if (isAiSpeaking) {
-          console.log('🛑 User interrupted AI - stopping playback');
-          pendingInterruptionRef.current = true;
-          
-          // Stop AI audio immediately
-          if (currentAudioRef.current) {
-            currentAudioRef.current.pause();
-            currentAudioRef.current.currentTime = 0;
-            const audioUrl = currentAudioRef.current.src;
-            if (audioUrl && audioUrl.startsWith('blob:')) {
-              URL.revokeObjectURL(audioUrl);
-            }
-            currentAudioRef.current = null;
-            setIsAiSpeaking(false);
-          }
-          
-          // Stop recognition temporarily to process
-          if (recognitionRef.current) {
-            try {
-              recognitionRef.current.stop();
-            } catch (e) {
-              console.error('Error stopping recognition:', e);
-            }
-          }
-          
-          setIsRecording(false);
-          setUserTranscript(transcript);
-          
-          // Process immediately and restart mic - don't wait for audio.onended since audio was interrupted
-          setTimeout(async () => {
-            await sendToBackend(transcript);
-          }, 300);
-          
-          // Start mic immediately after sending to backend - don't wait for audio.onended
-          // This ensures mic is ready even if new audio doesn't play or plays incorrectly
-          pendingInterruptionRef.current = false;
-          micAlreadyRestartedRef.current = true;
-          
-          // Wait for audio to start playing, then restart mic regardless of AI speaking state
-          setTimeout(() => {
-            if (isEnabledRef.current) {
-              console.log('🔄 Restarting mic after voice interruption (listening during AI playback)');
-              // Force start even if AI is speaking - we want continuous listening
-              if (recognitionRef.current) {
-                try {
-                  console.log('🎤 Force-starting mic during AI playback for interruptions');
-                  setIsRecording(true);
-                  isListeningRef.current = true;
-                  recognitionRef.current.start();
-                } catch (e) {
-                  console.error('Error force-starting mic:', e);
-                }
-              }
-            }
-            micAlreadyRestartedRef.current = false;
-          }, 1000); // Start after backend response and initial audio start
-          
-          return;
-        }
-        
-        // Normal flow - only process if not currently responding
-        if (!isResponding) {
-          setIsRecording(false);
-          setUserTranscript(transcript);
-          
-          // Stop recognition to process this input
-          if (recognitionRef.current) {
-            try {
-              recognitionRef.current.stop();
-            } catch (e) {
-              console.error('Error stopping recognition:', e);
-            }
-          }
-          
-          await sendToBackend(transcript);
-        }
-        
-        // Clear transcript after 3 seconds
-        setTimeout(() => setUserTranscript(""), 3000);
-      };
-
-      // Detect when user starts speaking (for interruption)
-      recognitionRef.current.onaudiostart = () => {
-        console.log('🎤 Audio input detected - mic is receiving input');
-        if (isAiSpeaking && !pendingInterruptionRef.current) {
-          console.log('⚠️ User voice detected during AI speech - preparing interruption');
-        }
-      };
-
-      recognitionRef.current.onerror = (event: any) => {
-        console.error('Speech recognition error:', event.error);
-        setIsRecording(false);
-        isListeningRef.current = false;
-        // Restart listening if enabled and not handling interruption
-        if (isEnabledRef.current && !pendingInterruptionRef.current) {
-          setTimeout(() => startListening(), 300);
-        }
-      };
-
-      recognitionRef.current.onend = () => {
-        console.log('🎤 Recognition ended');
-        setIsRecording(false);
-        isListeningRef.current = false;
-        
-        // Auto-restart listening if enabled, AI not speaking, and not handling interruption
-        if (isEnabledRef.current && !isAiSpeaking && !isResponding && !pendingInterruptionRef.current) {
-          setTimeout(() => {
-            console.log('🔄 Auto-restarting mic after recognition end');
-            startListening();
-          }, 300);
-        }
-      };
-    }
+// Spacebar push-to-talk stays out of the way of anything that takes keyboard input, and of dialogs
+function isTypingTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+      target.role === "combobox" ||
+      target.closest('[role="dialog"]') !== null)
+  );
+}
 
-    return () => {
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.stop();
-        } catch (e) {
-          // Ignore
-        }
-      }
-      // Cleanup timeouts
-      if (reinitTimeoutRef.current) {
-        clearTimeout(reinitTimeoutRef.current);
-      }
-    };
-  }, [isEnabled, isAiSpeaking, isResponding]);
+export default function VoiceChatbot() {
+  const endpoint = useVoiceEndpoint();
+  const [language, setLanguage] = useLanguagePreference();
+  const [mode, setMode] = useListeningMode();
+  const { toast } = useToast();
+  const { t, setLocale } = useI18n();
+  const micPermission = useMicPermission();
+  const { markDenied } = micPermission;
+  const [permissionView, setPermissionView] = useState<MicPermissionView | null>(null);
+  const [requestingMic, setRequestingMic] = useState(false);
+  const [debugOpen, setDebugOpen] = useState(false);
+  const titleTapsRef = useRef<number[]>([]);
 
-  const startListening = (retryAttempt: number = 0) => {
-    if (!recognitionRef.current) return;
-    
-    // Don't start if AI is speaking or system is processing
-    if (isAiSpeaking || isResponding) {
-      console.log('⚠️ Cannot start - AI speaking or processing');
-      return;
-    }
-    
-    // Prevent starting if already recording
-    if (isRecording) {
-      console.log('⚠️ Already recording, skipping start');
-      isListeningRef.current = true;
-      return;
-    }
-    
-    try {
-      console.log('🎤 Starting speech recognition...', retryAttempt > 0 ? `(retry ${retryAttempt})` : '');
-      setIsRecording(true);
-      isListeningRef.current = true;
-      recognitionRef.current.start();
-      
-      // Verify mic started successfully after 300ms - retry if not listening
-      if (retryAttempt === 0) {
-        clearTimeout(reinitTimeoutRef.current!);
-        reinitTimeoutRef.current = setTimeout(() => {
-          if (!isRecording && isEnabledRef.current && !isAiSpeaking && !isResponding) {
-            console.log('⚠️ Mic start verification failed - attempting retry');
-            startListening(1);
-          }
-        }, 300);
-      }
-    } catch (error) {
-      console.error('Error starting recognition:', error);
-      setIsRecording(false);
-      isListeningRef.current = false;
-      
-      // Retry once if first attempt fails
-      if (retryAttempt === 0 && isEnabledRef.current) {
-        console.log('⚠️ Retrying mic start after error...');
-        setTimeout(() => startListening(1), 300);
+  // Failed turns can be sent again, and replies that failed to play heard again, from the toast;
+  // the assistant's functions are read when the retry is pressed
+  const sendTextRef = useRef<(text: string) => boolean>(() => false);
+  const replayReplyRef = useRef<(turnId: number) => boolean>(() => false);
+  const showError = useCallback(
+    ({ category, retryText, replayTurnId, status }: VoiceError) => {
+      // A blocked mic gets the full instructions rather than a toast
+      if (category === "mic-permission") {
+        markDenied();
+        setPermissionView("denied");
+        return;
       }
-    }
-  };
+      const { title, description } = ERROR_MESSAGES[category];
+      const retry =
+        replayTurnId !== undefined
+          ? () => replayReplyRef.current(replayTurnId)
+          : retryText
+            ? () => sendTextRef.current(retryText)
+            : undefined;
+      toast({
+        variant: category === "no-speech" ? "default" : "destructive",
+        title: t(title),
+        description: t(description, status === undefined ? {} : { status: String(status) }),
+        action: retry ? (
+          <ToastAction altText={t("error.retry")} onClick={retry}>
+            {t("error.retry")}
+          </ToastAction>
+        ) : undefined,
+      });
+    },
+    [toast, t, markDenied],
+  );
+  const {
+    state,
+    userTranscript,
+    interimTranscript,
+    replyText,
+    activeLanguage,
+    wakeArmed,
+    wakePhrase,
+    echoStats,
+    lastReply,
+    turnTimings,
+    turns,
+    clearHistory,
+    getInputLevel,
+    getOutputWaveform,
+    voiceAvailable,
+    micUnavailable,
+    sendText,
+    replayReply,
+    toggleAssistant,
+    pressToTalk,
+    releaseToTalk,
+  } = useVoiceAssistant({ endpoint, language, mode, onError: showError });
+  sendTextRef.current = sendText;
+  replayReplyRef.current = replayReply;
 
-  const stopAiAudio = () => {
-    if (currentAudioRef.current) {
-      console.log('🛑 Stopping AI audio');
-      try {
-        currentAudioRef.current.pause();
-        currentAudioRef.current.currentTime = 0;
-        const audioUrl = currentAudioRef.current.src;
-        if (audioUrl && audioUrl.startsWith('blob:')) {
-          URL.revokeObjectURL(audioUrl);
-        }
-      } catch (error) {
-        console.error('⚠️ Error stopping audio:', error);
-      }
-      currentAudioRef.current = null;
-      setIsAiSpeaking(false);
-      setAiResponse("");
-      isListeningRef.current = false;
-      console.log('✅ AI audio stopped cleanly');
-    }
-  };
+  // The whole interface follows the conversation language
+  useEffect(() => {
+    setLocale(resolveUiLocale(activeLanguage));
+  }, [activeLanguage, setLocale]);
 
-  const toggleAssistant = () => {
-    if (!recognitionRef.current) {
-      console.error('Speech recognition not supported in this browser');
-      return;
-    }
+  const isPushToTalk = voiceAvailable && mode === "push-to-talk";
 
-    if (isAiSpeaking || isResponding) {
-      // If AI is speaking or processing, interrupt and start listening immediately
-      console.log('🛑 Manual interrupt triggered');
-      pendingInterruptionRef.current = true;
-      stopAiAudio();
-      setIsResponding(false);
-      setIsEnabled(true); // Ensure assistant stays enabled
-      isEnabledRef.current = true;
-      
-      // Restart mic after interruption with standard delay
-      setTimeout(() => {
-        pendingInterruptionRef.current = false;
-        startListening();
-      }, 300);
-      return;
-    }
+  // Explains the mic before the browser asks for it, or how to unblock it; false until it may be opened
+  const ensureMicPermission = useCallback(() => {
+    if (micPermission.state === "denied") setPermissionView("denied");
+    else if (micPermission.state === "prompt") setPermissionView("onboarding");
+    else return true;
+    return false;
+  }, [micPermission.state]);
 
-    if (isEnabled) {
-      // Turn OFF assistant
-      setIsEnabled(false);
-      isEnabledRef.current = false;
-      setIsRecording(false);
-      pendingInterruptionRef.current = false;
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        // Ignore
-      }
-      console.log('🛑 Assistant disabled');
-    } else {
-      // Turn ON assistant and start listening
-      setIsEnabled(true);
-      isEnabledRef.current = true;
-      pendingInterruptionRef.current = false;
-      setTimeout(() => startListening(), 300);
-      console.log('✅ Assistant enabled');
-    }
+  const handleToggle = () => {
+    if (state.status === "idle" && !ensureMicPermission()) return;
+    toggleAssistant();
   };
 
-  const sendToBackend = async (userText: string) => {
-    const payload = {
-      text: userText
-    };
-
-    console.log('📤 Sending to backend:', { text: userText, url: PRODUCTION_URL });
-    setIsResponding(true);
-    setAiResponse("Processing...");
+  const handlePress = useCallback(() => {
+    if (ensureMicPermission()) pressToTalk();
+  }, [ensureMicPermission, pressToTalk]);
 
+  const handleAllowMic = async () => {
+    setRequestingMic(true);
     try {
-      const startTime = Date.now();
-      
-      // Send to test URL (fire and forget)
-      fetch(TEST_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      }).catch(() => {});
-
-      // Send to production URL and await response
-      console.log('⏳ Fetch started at:', new Date().toISOString());
-      
-      const response = await fetch(PRODUCTION_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const fetchDuration = Date.now() - startTime;
-      console.log(`✅ Fetch completed in ${fetchDuration}ms`);
-      console.log('📊 Response status:', response.status, response.statusText);
-      console.log('📋 Response headers:', Object.fromEntries(response.headers.entries()));
-
-      if (response.ok) {
-        const contentType = response.headers.get('content-type');
-        console.log('🎵 Content-Type:', contentType);
-
-        // Handle binary audio response
-        if (contentType?.includes('audio') || contentType?.includes('mp3') || contentType?.includes('mpeg')) {
-          console.log('✅ Received audio response, creating blob...');
-          const audioBlob = await response.blob();
-          console.log('✅ MP3 Blob created successfully:', { 
-            size: audioBlob.size, 
-            type: audioBlob.type 
-          });
-          setAiResponse("Speaking...");
-          await playAudioBlob(audioBlob);
-        } else {
-          console.warn('⚠️ Expected audio response but got:', contentType);
-          console.warn('Response might not be MP3 binary data');
-          
-          // Try to play anyway as blob
-          const audioBlob = await response.blob();
-          console.log('⚠️ Attempting to play blob anyway:', { 
-            size: audioBlob.size, 
-            type: audioBlob.type 
-          });
-          await playAudioBlob(audioBlob);
-        }
-      } else {
-        console.error('❌ Backend returned error status:', response.status);
-        throw new Error(`Backend error: ${response.status}`);
+      if ((await micPermission.request()) === "denied") {
+        setPermissionView("denied");
+        return;
       }
-
+      setPermissionView(null);
+      // The tap that opened the dialog was meant to switch the assistant on; push-to-talk waits for a press
+      if (!isPushToTalk && state.status === "idle") toggleAssistant();
     } catch (error) {
-      console.error('❌ Backend error:', error);
-      // Reinitialize mic on error
-      if (isEnabledRef.current && !pendingInterruptionRef.current) {
-        setTimeout(() => startListening(), 300);
-      }
+      log.error("Microphone request failed", error);
+      setPermissionView(null);
+      showError({ category: "mic-unavailable", cause: error });
     } finally {
-      setIsResponding(false);
+      setRequestingMic(false);
     }
   };
 
-  const playAudioBlob = async (audioBlob: Blob) => {
-    try {
-      console.log('🎵 Starting audio playback...');
-      
-      // Stop any currently playing audio
-      if (currentAudioRef.current) {
-        console.log('⏹️ Stopping previous audio');
-        currentAudioRef.current.pause();
-        currentAudioRef.current = null;
-      }
+  useEffect(() => {
+    if (!isPushToTalk) return;
 
-      // Create audio URL from blob
-      const audioUrl = URL.createObjectURL(audioBlob);
-      console.log('✅ Audio URL created:', audioUrl);
-      
-      const audio = new Audio(audioUrl);
-      currentAudioRef.current = audio;
-      
-      // Keep mic active during AI speech to allow interruptions
-      setIsAiSpeaking(true);
-      setIsResponding(false);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isTypingTarget(event.target)) return;
+      // Also stops the page scrolling and a focused button from clicking
+      event.preventDefault();
+      if (!event.repeat) handlePress();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isTypingTarget(event.target)) return;
+      event.preventDefault();
+      releaseToTalk();
+    };
 
-      console.log('▶️ Audio playback started at:', new Date().toISOString());
-      await audio.play();
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    // Letting go of the key in another window never fires keyup here
+    window.addEventListener("blur", releaseToTalk);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", releaseToTalk);
+      releaseToTalk();
+    };
+  }, [isPushToTalk, handlePress, releaseToTalk]);
 
-      audio.onended = () => {
-        console.log('⏹️ Audio playback ended at:', new Date().toISOString());
-        URL.revokeObjectURL(audioUrl);
-        currentAudioRef.current = null;
-        setIsAiSpeaking(false);
-        setAiResponse("");
-        console.log('🎤 Audio complete - reinitializing mic');
-        
-        // Clean reinitialization: single activation after AI finishes
-        // Only restart if not already restarted by interruption flow
-        if (isEnabledRef.current && !pendingInterruptionRef.current && !micAlreadyRestartedRef.current) {
-          setTimeout(() => {
-            console.log('🔄 Reactivating mic after AI speech');
-            startListening();
-          }, 300);
-        }
-        
-        // Reset flags
-        pendingInterruptionRef.current = false;
-        micAlreadyRestartedRef.current = false;
-      };
+  const isEnabled = state.status !== "idle";
+  const isRecording = state.micActive;
+  const isResponding = state.status === "sending";
+  const isAiSpeaking = state.status === "speaking";
+  // In wake-word mode the mic is always on; it only answers once armed by the wake phrase
+  const isWaitingForWake = voiceAvailable && mode === "wake-word" && isEnabled && !wakeArmed;
+  const aiResponse = isResponding
+    ? t("bubble.processing")
+    : isAiSpeaking
+      ? replyText || t("bubble.speaking")
+      : "";
 
-      audio.onerror = (e) => {
-        console.error('❌ Audio playback error:', e);
-        URL.revokeObjectURL(audioUrl);
-        currentAudioRef.current = null;
-        setIsAiSpeaking(false);
-        setAiResponse("");
-        
-        // Reinitialize mic after error
-        if (isEnabledRef.current && !pendingInterruptionRef.current) {
-          setTimeout(() => startListening(), 300);
-        }
-      };
-    } catch (error) {
-      console.error('❌ Audio playback exception:', error);
-      setIsAiSpeaking(false);
-      setAiResponse("");
-      
-      // Reinitialize mic after exception
-      if (isEnabledRef.current && !pendingInterruptionRef.current) {
-        setTimeout(() => startListening(), 300);
-      }
-    }
+  // A hidden way into the debug panel on a customer's device, where the URL can't easily change
+  const handleTitleTap = () => {
+    const now = Date.now();
+    const taps = [...titleTapsRef.current.filter((time) => now - time < DEBUG_TAP_WINDOW), now];
+    titleTapsRef.current = taps.length >= DEBUG_TAP_COUNT ? [] : taps;
+    if (taps.length >= DEBUG_TAP_COUNT) setDebugOpen(true);
   };
 
   return (
@@ -440,42 +229,86 @@ export default function VoiceChatbot() {
     >
       {/* Overlay for better readability */}
       <div className="absolute inset-0 bg-black/20 backdrop-blur-[2px]"></div>
+
+      {/* Conversation language and listening mode */}
+      <div className="absolute top-4 left-4 z-20 flex flex-col items-start gap-2">
+        <LanguageSelector value={language} activeLanguage={activeLanguage} onChange={setLanguage} />
+        <ListeningModeSelector value={mode} onChange={setMode} />
+      </div>
+
+      {/* Backend environment indicator, plus the debug panel when opened with ?debug */}
+      <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-2">
+        <Badge
+          variant="outline"
+          title={t("environment.label", { url: endpoint.url })}
+          className="border-white/30 bg-white/10 text-white backdrop-blur-xl"
+        >
+          🔌 {endpoint.label}
+        </Badge>
+        {SHOW_DEBUG_BUTTON && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDebugOpen(true)}
+            className="text-white/80 hover:bg-white/10 hover:text-white"
+          >
+            <Bug className="mr-1 h-4 w-4" />
+            {t("debug.open")}
+          </Button>
+        )}
+      </div>
       
       {/* Glassmorphism Container */}
-      <div className="relative z-10 flex flex-col items-center justify-center">
+      <div className="relative z-10 flex w-full flex-col items-center justify-center px-4 py-8">
         {/* Header with Glass Effect */}
         <div className="text-center px-8 py-6 mb-16 rounded-3xl backdrop-blur-xl bg-white/10 border border-white/20 shadow-2xl">
-          <h1 className="text-5xl md:text-6xl font-bold text-white mb-4 drop-shadow-lg">
-            Talk to Anand Mithaiwala 🍬
+          <h1 onClick={handleTitleTap} className="text-5xl md:text-6xl font-bold text-white mb-4 drop-shadow-lg select-none">
+            {t("app.title")}
           </h1>
           <p className="text-white/90 text-xl drop-shadow-md">
-            Your friendly voice assistant for sweet conversations
+            {t("app.subtitle")}
           </p>
         </div>
 
         {/* Microphone Button with Glass Effect */}
         <div className="relative p-8 rounded-full backdrop-blur-2xl bg-white/10 border border-white/30 shadow-2xl">
-          {/* Outer ring animations for different states */}
-          {isAiSpeaking && (
-            <div className="absolute inset-0 rounded-full bg-green-500/30 animate-ping"></div>
-          )}
+          {/* Live mic level and AI output waveform */}
+          <MicVisualizer
+            listening={isRecording && !isResponding && !isAiSpeaking}
+            speaking={isAiSpeaking}
+            getInputLevel={getInputLevel}
+            getOutputWaveform={getOutputWaveform}
+          />
           {isResponding && (
             <div className="absolute inset-0 rounded-full border-4 border-yellow-500/50 animate-spin" style={{ animationDuration: '2s' }}></div>
           )}
-          {isRecording && !isResponding && !isAiSpeaking && (
-            <>
-              <div className="absolute inset-0 rounded-full bg-blue-500/30 animate-pulse"></div>
-              <div className="absolute inset-0 rounded-full border-4 border-blue-400/50 animate-ping" style={{ animationDuration: '2s' }}></div>
-            </>
+          {wakeArmed && !isResponding && !isAiSpeaking && (
+            <div className="absolute inset-0 rounded-full border-4 border-amber-400/80 animate-pulse"></div>
           )}
           
           <Button
-            onClick={toggleAssistant}
-            className={`w-24 h-24 rounded-full shadow-2xl transition-all duration-500 relative z-10 ${
+            disabled={!voiceAvailable}
+            {...(isPushToTalk
+              ? {
+                  // Capturing the pointer keeps the press alive when a finger slides off the button
+                  onPointerDown: (event: PointerEvent<HTMLButtonElement>) => {
+                    event.currentTarget.setPointerCapture(event.pointerId);
+                    handlePress();
+                  },
+                  onPointerUp: releaseToTalk,
+                  onPointerCancel: releaseToTalk,
+                  onContextMenu: (event: MouseEvent) => event.preventDefault(),
+                }
+              : { onClick: handleToggle })}
+            className={`w-24 h-24 rounded-full shadow-2xl transition-all duration-500 relative z-10 touch-none select-none ${
               isAiSpeaking
                 ? "bg-gradient-to-br from-green-500 to-green-700 scale-110"
                 : isResponding
                 ? "bg-gradient-to-br from-yellow-400 to-orange-600 scale-105"
+                : wakeArmed
+                ? "bg-gradient-to-br from-amber-400 to-amber-600 scale-105"
+                : isWaitingForWake
+                ? "bg-gradient-to-br from-gray-600 to-gray-800 hover:scale-105"
                 : isRecording
                 ? "bg-gradient-to-br from-blue-500 to-blue-700 hover:scale-105"
                 : isEnabled
@@ -487,6 +320,10 @@ export default function VoiceChatbot() {
                 ? "0 0 50px rgba(34, 197, 94, 0.8), 0 0 100px rgba(34, 197, 94, 0.4)"
                 : isResponding
                 ? "0 0 50px rgba(251, 191, 36, 0.8), 0 0 100px rgba(251, 191, 36, 0.4)"
+                : wakeArmed
+                ? "0 0 40px rgba(251, 191, 36, 0.6), 0 0 80px rgba(251, 191, 36, 0.3)"
+                : isWaitingForWake
+                ? "0 0 20px rgba(107, 114, 128, 0.4)"
                 : isRecording
                 ? "0 0 40px rgba(59, 130, 246, 0.6), 0 0 80px rgba(59, 130, 246, 0.3)"
                 : "0 0 20px rgba(107, 114, 128, 0.4)"
@@ -496,6 +333,8 @@ export default function VoiceChatbot() {
               <Volume2 className="w-12 h-12 text-white animate-pulse" />
             ) : isResponding ? (
               <Loader2 className="w-12 h-12 text-white animate-spin" />
+            ) : isWaitingForWake ? (
+              <Ear className="w-12 h-12 text-white/70" />
             ) : isRecording ? (
               <Mic className="w-12 h-12 text-white animate-pulse" />
             ) : isEnabled ? (
@@ -512,34 +351,92 @@ export default function VoiceChatbot() {
             isAiSpeaking || isResponding ? 'animate-pulse' : ''
           }`}>
             {isAiSpeaking 
-              ? "🔊 AI Speaking - Click to interrupt" 
+              ? t("status.speaking")
               : isResponding
-              ? "⏳ Processing your request..."
+              ? t("status.processing")
+              : !voiceAvailable
+              ? t("status.typeToChat")
+              : micUnavailable && !isEnabled
+              ? t("status.micUnavailable")
+              : wakeArmed
+              ? t("status.wakeArmed")
+              : isWaitingForWake
+              ? t("status.sayWakePhrase", { phrase: wakePhrase })
               : isRecording
-              ? "👂 Listening..."
+              ? t(isPushToTalk ? "status.releaseToSend" : "status.listening")
+              : isPushToTalk
+              ? t("status.holdToTalk")
               : isEnabled
-              ? "Ready - Start speaking"
-              : "Tap to activate voice assistant"}
+              ? t("status.ready")
+              : t("status.inactive")}
           </p>
         </div>
 
-        {/* Live Transcript Feedback */}
-        {userTranscript && (
+        {/* Live Transcript Feedback: greyed while the customer is still speaking */}
+        {interimTranscript ? (
+          <div className="mt-4 px-6 py-3 rounded-2xl backdrop-blur-xl bg-blue-500/10 border border-blue-400/20 shadow-xl">
+            <p className="text-center text-sm italic text-white/60 drop-shadow-md" aria-live="polite">
+              💬 {t("bubble.userSaying", { text: interimTranscript })}
+            </p>
+          </div>
+        ) : userTranscript && (
           <div className="mt-4 px-6 py-3 rounded-2xl backdrop-blur-xl bg-blue-500/20 border border-blue-400/30 shadow-xl animate-fade-in">
             <p className="text-center text-sm text-white/90 drop-shadow-md">
-              💬 You said: "{userTranscript}"
+              💬 {t("bubble.userSaid", { text: userTranscript })}
             </p>
           </div>
         )}
         
         {aiResponse && (
-          <div className="mt-4 px-6 py-3 rounded-2xl backdrop-blur-xl bg-green-500/20 border border-green-400/30 shadow-xl animate-fade-in">
+          <div className="mt-4 max-w-xl px-6 py-3 rounded-2xl backdrop-blur-xl bg-green-500/20 border border-green-400/30 shadow-xl animate-fade-in">
             <p className="text-center text-sm text-white/90 drop-shadow-md">
-              🤖 AI: {aiResponse}
+              🤖 {t("bubble.ai", { text: aiResponse })}
             </p>
           </div>
         )}
+
+        {/* Typed fallback for browsers without speech recognition */}
+        {!voiceAvailable && (
+          <>
+            <VoiceUnavailableNotice />
+            <TypedMessageForm onSend={sendText} />
+          </>
+        )}
+
+        {/* Conversation History */}
+        <TranscriptPanel turns={turns} onClear={clearHistory} />
       </div>
+
+      <MicPermissionDialog
+        view={permissionView}
+        requesting={requestingMic}
+        onAllow={handleAllowMic}
+        onClose={() => setPermissionView(null)}
+      />
+
+      <VoiceDebugSheet
+        open={debugOpen}
+        onOpenChange={setDebugOpen}
+        lastReply={lastReply}
+        turnTimings={turnTimings}
+        flags={{
+          status: state.status,
+          turnId: state.turnId,
+          micActive: state.micActive,
+          mode,
+          language,
+          activeLanguage,
+          wakeArmed,
+          voiceAvailable,
+          micUnavailable,
+          micPermission: micPermission.state,
+          interimTranscript: interimTranscript || null,
+          echoFinalsDropped: echoStats.finals,
+          echoInterimsDropped: echoStats.interims,
+          endpoint: endpoint.url,
+          logLevel: getLogLevel(),
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,166 @@
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { Download, Trash2 } from "lucide-react";
+import TurnLatencyChart from "@/components/TurnLatencyChart";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { useI18n } from "@/hooks/use-i18n";
+import { useLogEntries } from "@/hooks/use-log-entries";
+import type { ReplyDiagnostics } from "@/hooks/use-voice-assistant";
+import { clearLogEntries, downloadLogs, type LogEntry, type LogLevel } from "@/lib/logger";
+import type { TurnTiming } from "@/lib/voice/turn-metrics";
+
+// Enough to follow the last few turns without rendering the whole buffer on every event
+const EVENT_LIMIT = 150;
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "text-muted-foreground",
+  info: "text-foreground",
+  warn: "text-amber-600",
+  error: "text-destructive",
+};
+
+export type DebugFlags = Record<string, string | number | boolean | null>;
+
+interface VoiceDebugSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  flags: DebugFlags;
+  lastReply: ReplyDiagnostics | null;
+  turnTimings: TurnTiming[];
+}
+
+function formatData(data: unknown[]) {
+  return data
+    .map((item) => {
+      if (item instanceof Error) return `${item.name}: ${item.message}`;
+      if (typeof item === "string") return item;
+      try {
+        return JSON.stringify(item);
+      } catch {
+        return String(item);
+      }
+    })
+    .join(" ");
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function Values({ values }: { values: DebugFlags }) {
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 font-mono text-xs">
+      {Object.entries(values).map(([name, value]) => (
+        <div key={name} className="contents">
+          <dt className="text-muted-foreground">{name}</dt>
+          <dd className="break-all">{value === null ? "–" : String(value)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function EventList({ entries }: { entries: LogEntry[] }) {
+  return (
+    <ol className="space-y-1 font-mono text-[11px] leading-snug">
+      {entries.map((entry, index) => (
+        <li key={`${entry.time}-${index}`} className={LEVEL_COLORS[entry.level]}>
+          <span className="text-muted-foreground">{format(new Date(entry.time), "HH:mm:ss.SSS")}</span>{" "}
+          <span className="font-semibold">{entry.namespace}</span> {entry.message}
+          {entry.data && <span className="block break-all pl-4 text-muted-foreground">{formatData(entry.data)}</span>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+/** Developer panel for diagnosing the voice pipeline on a customer's device */
+export default function VoiceDebugSheet({ open, onOpenChange, flags, lastReply, turnTimings }: VoiceDebugSheetProps) {
+  const { t } = useI18n();
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{t("debug.title")}</SheetTitle>
+          <SheetDescription>{t("debug.description")}</SheetDescription>
+        </SheetHeader>
+        <DebugDetails flags={flags} lastReply={lastReply} turnTimings={turnTimings} />
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={downloadLogs}>
+            <Download className="mr-1 h-4 w-4" />
+            {t("debug.downloadLogs")}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={clearLogEntries}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            {t("debug.clearLogs")}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function DebugDetails({ flags, lastReply, turnTimings }: Omit<VoiceDebugSheetProps, "open" | "onOpenChange">) {
+  const { t } = useI18n();
+  const entries = useLogEntries();
+  const recent = entries.slice(-EVENT_LIMIT).reverse();
+
+  return (
+    <ScrollArea className="-mr-3 flex-1 pr-3">
+      <div className="space-y-5">
+        <Section title={t("debug.state")}>
+          <Values values={flags} />
+        </Section>
+
+        <Section title={t("debug.lastReply")}>
+          {lastReply ? (
+            <>
+              <Values
+                values={{
+                  turnId: lastReply.turnId,
+                  receivedAt: format(lastReply.receivedAt, "HH:mm:ss.SSS"),
+                  status: lastReply.status,
+                  contentType: lastReply.contentType,
+                  mimeType: lastReply.mimeType,
+                  fetchDurationMs: lastReply.fetchDurationMs,
+                  attempts: lastReply.attempts,
+                  size: lastReply.size ?? "streaming",
+                }}
+              />
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">
+                  {t("debug.headers", { count: Object.keys(lastReply.headers).length })}
+                </summary>
+                <div className="mt-1">
+                  <Values values={lastReply.headers} />
+                </div>
+              </details>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">{t("debug.noReply")}</p>
+          )}
+        </Section>
+
+        <Section title={t("debug.latency")}>
+          <TurnLatencyChart timings={turnTimings} />
+        </Section>
+
+        <Section title={t("debug.events")}>
+          {recent.length > 0 ? (
+            <EventList entries={recent} />
+          ) : (
+            <p className="text-xs text-muted-foreground">{t("debug.noEvents")}</p>
+          )}
+        </Section>
+      </div>
+    </ScrollArea>
+  );
+}
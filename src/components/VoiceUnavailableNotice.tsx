@@ -0,0 +1,19 @@
+import { MicOff } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useI18n } from "@/hooks/use-i18n";
+import { getWebSpeechUnavailableReason } from "@/lib/voice/web-speech-recognizer";
+
+export default function VoiceUnavailableNotice() {
+  const { t } = useI18n();
+  const reason = getWebSpeechUnavailableReason();
+
+  return (
+    <Alert className="mt-8 max-w-xl border-amber-300/40 bg-amber-500/20 text-white backdrop-blur-xl [&>svg]:text-amber-200">
+      <MicOff className="h-4 w-4" />
+      <AlertTitle>{t("voiceUnavailable.title")}</AlertTitle>
+      <AlertDescription className="text-white/90">
+        {t(reason === "insecure-context" ? "voiceUnavailable.insecure" : "voiceUnavailable.unsupported")}
+      </AlertDescription>
+    </Alert>
+  );
+}
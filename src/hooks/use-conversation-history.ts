@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  appendTurn,
+  interruptTurn,
+  loadHistory,
+  saveHistory,
+  updateTurn,
+  type HistoryTurn,
+} from "@/lib/voice/conversation-history";
+
+// History entries are addressed by the conversation machine's turn ID while this page is open
+export function useConversationHistory() {
+  const [turns, setTurns] = useState<HistoryTurn[]>(() => loadHistory());
+  const keysRef = useRef(new Map<number, string>());
+  // Lets callbacks read the latest history without re-subscribing on every change
+  const turnsRef = useRef(turns);
+  turnsRef.current = turns;
+
+  useEffect(() => {
+    saveHistory(turns);
+  }, [turns]);
+
+  const getTurns = useCallback(() => turnsRef.current, []);
+
+  const startTurn = useCallback((turnId: number, userText: string, sessionId?: string) => {
+    const askedAt = Date.now();
+    const key = `${askedAt}-${turnId}`;
+    keysRef.current.set(turnId, key);
+    setTurns((current) => appendTurn(current, { key, sessionId, userText, askedAt, status: "pending" }));
+  }, []);
+
+  const updateHistoryTurn = useCallback((turnId: number, changes: Partial<HistoryTurn>) => {
+    const key = keysRef.current.get(turnId);
+    if (key) setTurns((current) => updateTurn(current, key, changes));
+  }, []);
+
+  const answerTurn = useCallback((turnId: number) => {
+    const key = keysRef.current.get(turnId);
+    if (!key) return;
+    const answeredAt = Date.now();
+    setTurns((current) =>
+      current.map((turn) =>
+        turn.key === key ? { ...turn, status: "answered", answeredAt, latencyMs: answeredAt - turn.askedAt } : turn,
+      ),
+    );
+  }, []);
+
+  const markInterrupted = useCallback((turnId: number) => {
+    const key = keysRef.current.get(turnId);
+    if (key) setTurns((current) => interruptTurn(current, key));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    keysRef.current.clear();
+    setTurns([]);
+  }, []);
+
+  return { turns, getTurns, startTurn, updateTurn: updateHistoryTurn, answerTurn, markInterrupted, clearHistory };
+}
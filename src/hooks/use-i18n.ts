@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+
+import { createTranslator, detectUiLocale, type Translator, type UiLocale } from "@/lib/i18n";
+
+export interface I18nContextValue extends Translator {
+  setLocale: (locale: UiLocale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  ...createTranslator(detectUiLocale()),
+  setLocale: () => {},
+});
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,14 @@
+import { useCallback, useState } from "react";
+
+import { loadLanguagePreference, saveLanguagePreference, type LanguagePreference } from "@/lib/voice/languages";
+
+export function useLanguagePreference() {
+  const [preference, setPreferenceState] = useState<LanguagePreference>(() => loadLanguagePreference());
+
+  const setPreference = useCallback((next: LanguagePreference) => {
+    saveLanguagePreference(next);
+    setPreferenceState(next);
+  }, []);
+
+  return [preference, setPreference] as const;
+}
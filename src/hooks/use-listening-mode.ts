@@ -0,0 +1,14 @@
+import { useCallback, useState } from "react";
+
+import { loadListeningMode, saveListeningMode, type ListeningMode } from "@/lib/voice/listening-mode";
+
+export function useListeningMode() {
+  const [mode, setModeState] = useState<ListeningMode>(() => loadListeningMode());
+
+  const setMode = useCallback((next: ListeningMode) => {
+    saveListeningMode(next);
+    setModeState(next);
+  }, []);
+
+  return [mode, setMode] as const;
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+import { getLogEntries, subscribeToLogs, type LogEntry } from "@/lib/logger";
+
+/** The logger's ring buffer, oldest first, kept current while mounted */
+export function useLogEntries(): LogEntry[] {
+  const [entries, setEntries] = useState(getLogEntries);
+
+  useEffect(() => {
+    // Anything logged between the first render and subscribing
+    setEntries(getLogEntries());
+    return subscribeToLogs(() => setEntries(getLogEntries()));
+  }, []);
+
+  return entries;
+}
@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from "react";
+
+import { requestMicPermission, watchMicPermission, type MicPermissionState } from "@/lib/voice/mic-permission";
+
+export function useMicPermission() {
+  const [state, setState] = useState<MicPermissionState>("unknown");
+
+  useEffect(() => watchMicPermission(setState), []);
+
+  const request = useCallback(async () => {
+    const next = await requestMicPermission();
+    setState(next);
+    return next;
+  }, []);
+
+  // The recognizer can find out first, e.g. where the Permissions API does not know the mic
+  const markDenied = useCallback(() => setState("denied"), []);
+
+  return { state, request, markDenied };
+}
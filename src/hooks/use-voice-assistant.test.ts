@@ -0,0 +1,459 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { useVoiceAssistant, type VoiceAssistantOptions } from "@/hooks/use-voice-assistant";
+import { createVoiceBackendClient, type VoiceBackendClient, type VoiceReply } from "@/lib/voice/backend-client";
+import type { VoiceEndpoint } from "@/lib/voice/endpoint-config";
+import { createFakeAudioSink, type FakeAudioSink } from "@/lib/voice/fake-audio-sink";
+import { createFakeSpeechRecognizer, type FakeSpeechRecognizer } from "@/lib/voice/fake-speech-recognizer";
+import {
+  createFakeVoiceActivityDetector,
+  type FakeVoiceActivityDetector,
+} from "@/lib/voice/fake-voice-activity-detector";
+import type { SpeechRecognizerOptions } from "@/lib/voice/speech-recognizer";
+import { SILENCE_DB, type VoiceActivityOptions } from "@/lib/voice/voice-activity";
+
+const endpoint: VoiceEndpoint = { name: "test", label: "Test", url: "https://example.test/voice", source: "default" };
+
+function audioReply(text = "Two jalebis coming up"): VoiceReply {
+  return {
+    audio: new Blob(["mp3"], { type: "audio/mpeg" }),
+    mimeType: "audio/mpeg",
+    text,
+    meta: { status: 200, contentType: "audio/mpeg", headers: {}, fetchDurationMs: 5, attempts: 1 },
+  };
+}
+
+let recognizer: FakeSpeechRecognizer;
+const createRecognizer = (options: SpeechRecognizerOptions) => (recognizer = createFakeSpeechRecognizer(options));
+
+let sink: FakeAudioSink;
+const createAudioSink = () => (sink = createFakeAudioSink());
+
+let backendClient: VoiceBackendClient & { sendTurn: ReturnType<typeof vi.fn> };
+
+function renderAssistant(options: Partial<VoiceAssistantOptions> = {}) {
+  return renderHook(() =>
+    useVoiceAssistant({
+      endpoint,
+      language: "en-IN",
+      createRecognizer,
+      createAudioSink,
+      backendClient,
+      vad: false,
+      ...options,
+    }),
+  );
+}
+
+/** Runs pending timers up to `ms` from now, and the promise chains they start */
+const advance = (ms = 0) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval"] });
+  sessionStorage.clear();
+  backendClient = { sendTurn: vi.fn(async () => audioReply()) };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("useVoiceAssistant with a scripted recognizer", () => {
+  async function listening(options: Partial<VoiceAssistantOptions> = {}) {
+    const hook = renderAssistant(options);
+    act(() => hook.result.current.toggleAssistant());
+    // The mic opens after the restart scheduler's first delay
+    await advance(300);
+    expect(hook.result.current.state).toMatchObject({ status: "listening", micActive: true });
+    return hook;
+  }
+
+  it("sends a final result as a turn", async () => {
+    const { result } = await listening();
+
+    act(() => recognizer.emitResult("two jalebi please"));
+
+    expect(result.current.state).toMatchObject({ status: "sending", transcript: "two jalebi please", turnId: 1 });
+    expect(result.current.userTranscript).toBe("two jalebi please");
+    expect(backendClient.sendTurn).toHaveBeenCalledWith(
+      expect.objectContaining({ text: "two jalebi please", turnIndex: 0, locale: "en-IN" }),
+      expect.anything(),
+    );
+  });
+
+  it("shows interim results until the final one arrives", async () => {
+    const { result } = await listening();
+
+    act(() => recognizer.emitResult("two jal", { isFinal: false }));
+    expect(result.current.interimTranscript).toBe("two jal");
+    expect(result.current.state.status).toBe("listening");
+    expect(backendClient.sendTurn).not.toHaveBeenCalled();
+
+    act(() => recognizer.emitResult("two jalebi"));
+    expect(result.current.interimTranscript).toBe("");
+    expect(backendClient.sendTurn).toHaveBeenCalledTimes(1);
+  });
+
+  it("restarts the recognizer when it ends on its own", async () => {
+    const { result } = await listening();
+
+    act(() => recognizer.emitEnd());
+    expect(result.current.state.micActive).toBe(false);
+
+    await advance(300);
+    expect(recognizer.startCount).toBe(2);
+    expect(result.current.state).toMatchObject({ status: "listening", micActive: true });
+  });
+
+  it("switches off instead of retrying when the mic is not allowed", async () => {
+    const onError = vi.fn();
+    const { result } = await listening({ onError });
+
+    act(() => recognizer.emitError("not-allowed"));
+    await advance(10000);
+
+    expect(result.current.state.status).toBe("idle");
+    expect(recognizer.startCount).toBe(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ category: "mic-permission" }));
+  });
+
+  it("clears the history for the next customer when switched off", async () => {
+    const { result } = await listening();
+    act(() => recognizer.emitResult("two jalebi"));
+    await advance();
+    act(() => sink.finish());
+    expect(result.current.turns).toHaveLength(1);
+
+    act(() => result.current.toggleAssistant());
+
+    expect(result.current.state.status).toBe("idle");
+    expect(result.current.turns).toEqual([]);
+    expect(sessionStorage.length).toBe(0);
+  });
+
+  it("gives up on a recognizer that keeps failing", async () => {
+    const { result } = await listening();
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      act(() => recognizer.emitError("audio-capture"));
+      await advance(5000);
+    }
+
+    expect(result.current.micUnavailable).toBe(true);
+    expect(result.current.state.status).toBe("idle");
+  });
+
+  it("keeps the conversation when a failing mic switches the assistant off", async () => {
+    const { result } = await listening();
+    act(() => recognizer.emitResult("two jalebi"));
+    await advance();
+    act(() => sink.finish());
+    await advance(300);
+
+    for (let attempt = 0; attempt < 6; attempt++) {
+      act(() => recognizer.emitError("audio-capture"));
+      await advance(5000);
+    }
+
+    expect(result.current.state.status).toBe("idle");
+    expect(result.current.turns).toHaveLength(1);
+
+    // The same customer carries on, with the earlier exchange as context
+    act(() => result.current.toggleAssistant());
+    await advance(300);
+    act(() => recognizer.emitResult("make it three"));
+    const [first, second] = backendClient.sendTurn.mock.calls.map(([request]) => request);
+    expect(second).toMatchObject({ sessionId: first.sessionId, turnIndex: 1 });
+    expect(second.context).not.toEqual([]);
+  });
+
+  it("keeps the conversation when the mic is blocked", async () => {
+    const { result } = await listening();
+    act(() => recognizer.emitResult("two jalebi"));
+    await advance();
+    act(() => sink.finish());
+    await advance(300);
+
+    act(() => recognizer.emitError("not-allowed"));
+
+    expect(result.current.state.status).toBe("idle");
+    expect(result.current.turns).toHaveLength(1);
+  });
+
+  it("follows a scripted session: interim, final, then the end of capture", async () => {
+    const scripted = (options: SpeechRecognizerOptions) =>
+      (recognizer = createFakeSpeechRecognizer(options, [
+        [
+          { type: "result", transcript: "one bar", isFinal: false },
+          { type: "result", transcript: "one barfi" },
+          { type: "end" },
+        ],
+      ]));
+    const { result } = renderAssistant({ createRecognizer: scripted });
+
+    act(() => result.current.toggleAssistant());
+    await advance(300);
+
+    expect(backendClient.sendTurn).toHaveBeenCalledWith(expect.objectContaining({ text: "one barfi" }), expect.anything());
+    expect(result.current.state.micActive).toBe(false);
+  });
+});
+
+describe("useVoiceAssistant playback through a fake sink", () => {
+  /** A typed turn, so these tests don't depend on the recognizer */
+  async function replying(options: Partial<VoiceAssistantOptions> = {}) {
+    const hook = renderAssistant(options);
+    act(() => {
+      hook.result.current.sendText("two jalebi");
+    });
+    await advance();
+    return hook;
+  }
+
+  it("speaks the reply and releases its URL when it ends", async () => {
+    const { result } = await replying();
+
+    expect(result.current.state.status).toBe("speaking");
+    expect(result.current.replyText).toBe("Two jalebis coming up");
+    expect(sink.played).toHaveLength(1);
+    expect(sink.liveUrls).toHaveLength(1);
+
+    act(() => sink.finish());
+
+    expect(result.current.state.status).toBe("listening");
+    expect(sink.liveUrls).toEqual([]);
+    expect(result.current.turns[0]).toMatchObject({ userText: "two jalebi", status: "answered" });
+  });
+
+  it("stops the reply when interrupted", async () => {
+    const { result } = await replying();
+
+    act(() => result.current.toggleAssistant());
+
+    expect(sink.stopCount).toBe(1);
+    expect(sink.liveUrls).toEqual([]);
+    expect(result.current.state.status).toBe("interrupted");
+    expect(result.current.turns[0]).toMatchObject({ status: "answered", interrupted: true });
+  });
+
+  it("never plays a reply interrupted while it was still buffering", async () => {
+    let finishBody: () => void = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+        finishBody = () => controller.close();
+      },
+    });
+    backendClient.sendTurn.mockResolvedValueOnce({ ...audioReply(), audio: body });
+    const { result } = await replying();
+    expect(result.current.state.status).toBe("sending");
+
+    act(() => result.current.toggleAssistant());
+    finishBody();
+    await advance();
+
+    expect(sink.played).toEqual([]);
+    expect(sink.liveUrls).toEqual([]);
+    expect(result.current.state.status).toBe("interrupted");
+    expect(result.current.turns[0].status).toBe("cancelled");
+  });
+
+  it("reports a reply the browser would not play and listens again", async () => {
+    const onError = vi.fn();
+    const hook = renderAssistant({ onError });
+    sink.failNextPlay();
+
+    act(() => {
+      hook.result.current.sendText("two jalebi");
+    });
+    await advance();
+
+    expect(hook.result.current.state.status).toBe("listening");
+    expect(sink.liveUrls).toEqual([]);
+    expect(hook.result.current.turns[0].status).toBe("failed");
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ category: "playback-blocked", replayTurnId: 1 }));
+    expect(onError.mock.calls[0][0].retryText).toBeUndefined();
+  });
+
+  it("replays a reply that failed to play without ordering again", async () => {
+    const hook = renderAssistant();
+    sink.failNextPlay();
+    act(() => {
+      hook.result.current.sendText("two jalebi");
+    });
+    await advance();
+
+    let replaying = false;
+    act(() => {
+      replaying = hook.result.current.replayReply(1);
+    });
+    await advance();
+
+    expect(replaying).toBe(true);
+    expect(backendClient.sendTurn).toHaveBeenCalledTimes(1);
+    // The blocked attempt, then the replay
+    expect(sink.played).toHaveLength(2);
+    expect(hook.result.current.state).toMatchObject({ status: "speaking", turnId: 1 });
+    expect(hook.result.current.replyText).toBe("Two jalebis coming up");
+    expect(hook.result.current.turns[0].status).toBe("answered");
+  });
+
+  it("replays a streamed reply from the copy it kept", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+        controller.close();
+      },
+    });
+    backendClient.sendTurn.mockResolvedValueOnce({ ...audioReply(), audio: body });
+    const hook = renderAssistant();
+    sink.failNextPlay();
+    act(() => {
+      hook.result.current.sendText("two jalebi");
+    });
+    await advance();
+
+    act(() => {
+      hook.result.current.replayReply(1);
+    });
+    await advance();
+
+    expect(sink.played).toHaveLength(2);
+    expect(sink.played[1]).toMatchObject({ size: 3, type: "audio/mpeg" });
+    expect(hook.result.current.state.status).toBe("speaking");
+  });
+
+  it("does not replay a reply once the customer has moved on", async () => {
+    const hook = renderAssistant();
+    sink.failNextPlay();
+    act(() => {
+      hook.result.current.sendText("two jalebi");
+    });
+    await advance();
+    act(() => {
+      hook.result.current.sendText("make it three");
+    });
+    await advance();
+
+    let replaying = true;
+    act(() => {
+      replaying = hook.result.current.replayReply(1);
+    });
+
+    expect(replaying).toBe(false);
+    expect(hook.result.current.state.turnId).toBe(2);
+  });
+
+  it("listens again when a streamed reply stalls before it can play", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+      },
+    });
+    const fetch = vi.fn(async () => new Response(body, { headers: { "Content-Type": "audio/mpeg" } }));
+    const onError = vi.fn();
+    const { result } = renderAssistant({
+      backendClient: createVoiceBackendClient({ url: endpoint.url, stallTimeoutMs: 2000, fetch }),
+      onError,
+    });
+
+    act(() => {
+      result.current.sendText("two jalebi");
+    });
+    await advance();
+    expect(result.current.state.status).toBe("sending");
+
+    await advance(2000);
+
+    expect(result.current.state.status).toBe("listening");
+    expect(result.current.turns[0].status).toBe("failed");
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ category: "backend-timeout" }));
+    expect(onError.mock.calls[0][0].replayTurnId).toBeUndefined();
+  });
+
+  it("plays a new reply over one still speaking after a barge-in", async () => {
+    const { result } = await replying();
+    const firstUrl = sink.liveUrls[0];
+
+    act(() => {
+      result.current.sendText("make it three");
+    });
+    await advance();
+
+    expect(sink.played).toHaveLength(2);
+    expect(sink.liveUrls).toHaveLength(1);
+    expect(sink.liveUrls).not.toContain(firstUrl);
+    expect(result.current.turns.map((turn) => turn.userText)).toEqual(["two jalebi", "make it three"]);
+  });
+});
+
+describe("useVoiceAssistant with a scripted voice activity detector", () => {
+  let detector: FakeVoiceActivityDetector;
+  const createVoiceActivityDetector = (options: VoiceActivityOptions) =>
+    (detector = createFakeVoiceActivityDetector(options));
+
+  async function speaking(options: Partial<VoiceAssistantOptions> = {}) {
+    const hook = renderAssistant({ createVoiceActivityDetector, vad: {}, ...options });
+    act(() => hook.result.current.toggleAssistant());
+    await advance(300);
+    act(() => recognizer.emitResult("two jalebi"));
+    await advance();
+    expect(hook.result.current.state.status).toBe("speaking");
+    return hook;
+  }
+
+  it("holds the mic only while the assistant is on", async () => {
+    const { result } = renderAssistant({ createVoiceActivityDetector, vad: {} });
+    expect(detector.running).toBe(false);
+
+    act(() => result.current.toggleAssistant());
+    await advance();
+    expect(detector.running).toBe(true);
+    detector.setLevel(-30);
+    expect(result.current.getInputLevel()).toBe(-30);
+
+    act(() => result.current.toggleAssistant());
+    await advance();
+    expect(detector.running).toBe(false);
+    expect(result.current.getInputLevel()).toBe(SILENCE_DB);
+  });
+
+  it("passes tuning through to the detector", () => {
+    renderAssistant({ createVoiceActivityDetector, vad: { thresholdDb: -40, hangoverMs: 900 } });
+
+    expect(detector.options).toMatchObject({ thresholdDb: -40, hangoverMs: 900 });
+  });
+
+  it("ducks the reply under the customer's voice and restores it afterwards", async () => {
+    await speaking();
+
+    act(() => detector.speechStart());
+    expect(sink.volume).toBe(0.2);
+    expect(sink.stopCount).toBe(0);
+
+    act(() => detector.speechEnd());
+    expect(sink.volume).toBe(1);
+  });
+
+  it("stops the reply on detected speech when barge-in stops", async () => {
+    const { result } = await speaking({ bargeIn: "stop" });
+
+    act(() => detector.speechStart());
+
+    expect(sink.stopCount).toBe(1);
+    expect(result.current.state.status).toBe("interrupted");
+  });
+
+  it("keeps listening without detection when the detector cannot start", async () => {
+    const { result } = renderAssistant({ createVoiceActivityDetector, vad: {} });
+    detector.failNextStart();
+
+    act(() => result.current.toggleAssistant());
+    await advance(300);
+
+    expect(detector.startCount).toBe(1);
+    expect(detector.running).toBe(false);
+    expect(result.current.state).toMatchObject({ status: "listening", micActive: true });
+  });
+});
@@ -0,0 +1,901 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  canStartMic,
+  initialConversationState,
+  isBargeIn,
+  isCurrentTurn,
+  transition,
+  type ConversationEvent,
+  type ConversationState,
+} from "@/lib/voice/conversation-machine";
+import { useConversationHistory } from "@/hooks/use-conversation-history";
+import { createLogger } from "@/lib/logger";
+import {
+  createVoiceBackendClient,
+  VoiceBackendError,
+  type VoiceBackendClient,
+  type VoiceReplyMeta,
+} from "@/lib/voice/backend-client";
+import { buildContext, createSession, type ConversationSession } from "@/lib/voice/conversation-session";
+import {
+  discardAudioSource,
+  keepAudioSource,
+  type AudioSink,
+  type AudioSinkFactory,
+  type AudioSource,
+  type KeptAudioSource,
+} from "@/lib/voice/audio-sink";
+import { ECHO_TAIL_MS, initialEchoStats, isLikelyEcho, type EchoStats } from "@/lib/voice/echo-guard";
+import type { VoiceEndpoint } from "@/lib/voice/endpoint-config";
+import {
+  detectBrowserLanguage,
+  pickAutoLanguage,
+  type LanguageCode,
+  type LanguagePreference,
+} from "@/lib/voice/languages";
+import type { ListeningMode } from "@/lib/voice/listening-mode";
+import {
+  defaultRecognizerOptions,
+  isAlreadyStartedError,
+  type SpeechRecognizer,
+  type SpeechRecognizerError,
+  type SpeechRecognizerFactory,
+  type SpeechRecognizerResult,
+} from "@/lib/voice/speech-recognizer";
+import { createRestartScheduler } from "@/lib/voice/restart-scheduler";
+import { createStreamingAudioSink } from "@/lib/voice/streaming-audio-sink";
+import { collectTurnTiming, markTurn, TURN_METRICS_LIMIT, type TurnTiming } from "@/lib/voice/turn-metrics";
+import {
+  fromBackendError,
+  fromPlaybackError,
+  fromRecognizerError,
+  type VoiceError,
+} from "@/lib/voice/voice-errors";
+import {
+  defaultVoiceActivityOptions,
+  SILENCE_DB,
+  type VoiceActivityDetector,
+  type VoiceActivityDetectorFactory,
+  type VoiceActivityOptions,
+} from "@/lib/voice/voice-activity";
+import { createWakeWordMatcher, resolveWakePhrases, WAKE_ARMED_TIMEOUT } from "@/lib/voice/wake-word";
+import { createWebAudioVoiceActivityDetector } from "@/lib/voice/web-audio-vad";
+import { createWebSpeechRecognizer } from "@/lib/voice/web-speech-recognizer";
+
+const log = createLogger("voice:assistant");
+const recognizerLog = createLogger("voice:recognizer");
+const playbackLog = createLogger("voice:playback");
+const backendLog = createLogger("voice:backend");
+const metricsLog = createLogger("voice:metrics");
+const vadLog = createLogger("voice:vad");
+
+/** First mic restart delay; it doubles with every failed restart in a row. */
+const MIC_RESTART_DELAY = 300;
+const TRANSCRIPT_CLEAR_DELAY = 3000;
+// Shorter interim text over the AI is more likely a cough or a stray word than a barge-in
+const INTERIM_BARGE_IN_MIN_LENGTH = 4;
+// Reply volume while the customer talks over it
+const DUCKED_VOLUME = 0.2;
+// A recognizer that keeps failing the same way restarts every few hundred ms; tell the customer once
+const ERROR_REPEAT_INTERVAL = 10000;
+
+export interface VoiceAssistantOptions {
+  endpoint: VoiceEndpoint;
+  /** A fixed recognition language, or "auto" to follow the customer between turns. */
+  language?: LanguagePreference;
+  /** Push-to-talk only opens the mic between `pressToTalk` and `releaseToTalk`. */
+  mode?: ListeningMode;
+  /** Phrases that arm the assistant in wake-word mode; resolved from the URL and env by default. */
+  wakePhrases?: readonly string[];
+  createRecognizer?: SpeechRecognizerFactory;
+  createAudioSink?: AudioSinkFactory;
+  createVoiceActivityDetector?: VoiceActivityDetectorFactory;
+  /** Voice activity detection tuning, or false to only barge in on recognized speech. */
+  vad?: Partial<VoiceActivityOptions> | false;
+  /** What detected speech does to a reply being spoken: lower it until recognized speech interrupts, or stop it. */
+  bargeIn?: "duck" | "stop";
+  /** Overrides the client built from `endpoint`. */
+  backendClient?: VoiceBackendClient;
+  /** Problems worth telling the customer about; everything is also logged. */
+  onError?: (error: VoiceError) => void;
+}
+
+/** How the last backend reply arrived, for diagnostics. */
+export interface ReplyDiagnostics extends VoiceReplyMeta {
+  turnId: number;
+  mimeType: string;
+  /** Body size in bytes; null when the audio was handed over as a stream. */
+  size: number | null;
+  receivedAt: number;
+}
+
+export function useVoiceAssistant({
+  endpoint,
+  language = "auto",
+  mode = "continuous",
+  wakePhrases,
+  createRecognizer = createWebSpeechRecognizer,
+  createAudioSink = createStreamingAudioSink,
+  createVoiceActivityDetector = createWebAudioVoiceActivityDetector,
+  vad = {},
+  bargeIn = "duck",
+  backendClient,
+  onError,
+}: VoiceAssistantOptions) {
+  const [state, setState] = useState<ConversationState>(initialConversationState);
+  const [userTranscript, setUserTranscript] = useState("");
+  const [interimTranscript, setInterimTranscript] = useState("");
+  const [replyText, setReplyText] = useState("");
+  const [wakeArmed, setWakeArmed] = useState(false);
+  const [echoStats, setEchoStats] = useState<EchoStats>(initialEchoStats);
+  const [lastReply, setLastReply] = useState<ReplyDiagnostics | null>(null);
+  const [turnTimings, setTurnTimings] = useState<TurnTiming[]>([]);
+  // Whether a speech recognizer could be created; without one only typed messages work
+  const [voiceAvailable, setVoiceAvailable] = useState(true);
+  // Set when the mic kept failing to restart and the assistant switched itself off
+  const [micUnavailable, setMicUnavailable] = useState(false);
+  const [micRestarts] = useState(() => createRestartScheduler({ baseDelayMs: MIC_RESTART_DELAY }));
+  const [activeLanguage, setActiveLanguage] = useState<LanguageCode>(() =>
+    language === "auto" ? detectBrowserLanguage() : language,
+  );
+  const history = useConversationHistory();
+  const { getTurns, startTurn, updateTurn, answerTurn, markInterrupted, clearHistory } = history;
+
+  // Recognizer and audio callbacks outlive renders, so they read the machine through this ref
+  const stateRef = useRef<ConversationState>(initialConversationState);
+  const recognitionRef = useRef<SpeechRecognizer | null>(null);
+  const audioSinkRef = useRef<AudioSink | null>(null);
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
+  const duckedRef = useRef(false);
+  // The reply that may be heard back through the mic, until `until` (performance.now() time)
+  const echoRef = useRef({ text: "", until: 0 });
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const lastErrorRef = useRef<{ category: string; at: number } | null>(null);
+  // The turn whose audio the sink is playing, and the request of the turn being fetched
+  const playingTurnRef = useRef(0);
+  // The latest reply's audio, kept until it has been heard so a failed playback can be retried
+  const keptReplyRef = useRef<{ turnId: number; text: string; mimeType: string; audio: KeptAudioSource } | null>(
+    null,
+  );
+  const turnAbortRef = useRef<AbortController | null>(null);
+  const transcriptTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const activeLanguageRef = useRef(activeLanguage);
+  // Consecutive turns the recognizer was unsure of, for automatic language switching
+  const lowConfidenceTurnsRef = useRef(0);
+  const sessionRef = useRef<ConversationSession>(createSession(activeLanguage));
+  const modeRef = useRef(mode);
+  // Whether the push-to-talk button is being held
+  const talkHeldRef = useRef(false);
+  const wakeArmedRef = useRef(false);
+  const wakeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const phrases = useMemo(() => wakePhrases ?? resolveWakePhrases(), [wakePhrases]);
+  const matchWakeWord = useMemo(() => createWakeWordMatcher(phrases), [phrases]);
+
+  const { url, mirrorUrl } = endpoint;
+  const client = useMemo(
+    () => backendClient ?? createVoiceBackendClient({ url, mirrorUrl }),
+    [backendClient, url, mirrorUrl],
+  );
+
+  const send = useCallback((event: ConversationEvent) => {
+    const previous = stateRef.current;
+    const next = transition(previous, event);
+    if (next !== previous) {
+      stateRef.current = next;
+      setState(next);
+    }
+    return next;
+  }, []);
+
+  // Armed lasts for one utterance, or until the customer stays quiet for WAKE_ARMED_TIMEOUT
+  const setArmed = useCallback((armed: boolean) => {
+    if (wakeTimeoutRef.current) clearTimeout(wakeTimeoutRef.current);
+    wakeTimeoutRef.current = armed ? setTimeout(() => setArmed(false), WAKE_ARMED_TIMEOUT) : null;
+    if (wakeArmedRef.current === armed) return;
+    log.info(armed ? "Wake phrase heard - armed" : "Disarmed");
+    wakeArmedRef.current = armed;
+    setWakeArmed(armed);
+  }, []);
+
+  const reportError = useCallback((error: VoiceError) => {
+    const now = Date.now();
+    const last = lastErrorRef.current;
+    // Failed turns are always reported, they are separate requests the customer is waiting on
+    if (!error.retryText && !error.replayTurnId && last?.category === error.category && now - last.at < ERROR_REPEAT_INTERVAL) return;
+    lastErrorRef.current = { category: error.category, at: now };
+    onErrorRef.current?.(error);
+  }, []);
+
+  // False only when start() threw; an open mic, or a state that no longer wants one, needs no retry
+  const startListening = useCallback(() => {
+    const recognition = recognitionRef.current;
+    if (!recognition || !canStartMic(stateRef.current)) return true;
+
+    try {
+      recognizerLog.debug("Starting speech recognition");
+      recognition.start();
+      send({ type: "MIC_STARTED" });
+    } catch (error) {
+      if (isAlreadyStartedError(error)) {
+        send({ type: "MIC_STARTED" });
+        return true;
+      }
+      recognizerLog.error("Could not start recognition", error);
+      micRestarts.recordFailure();
+      return false;
+    }
+    return true;
+  }, [send, micRestarts]);
+
+  // Every automatic mic (re)start goes through the restart scheduler, which backs off and
+  // eventually gives up. In push-to-talk the mic never reopens on its own, only while the
+  // button is held.
+  const scheduleMicStart = useCallback(() => {
+    // Typed-only mode has no mic to bring back
+    if (!recognitionRef.current) return;
+    if (modeRef.current === "push-to-talk" && !talkHeldRef.current) return;
+    const scheduled = micRestarts.schedule(() => {
+      // A start() that throws never ends the recognizer, so nothing else would retry it
+      if (!startListening()) scheduleMicStart();
+    });
+    if (!scheduled) {
+      recognizerLog.error("Giving up on the microphone after repeated failures");
+      setMicUnavailable(true);
+    }
+  }, [micRestarts, startListening]);
+
+  // Takes effect on the recognizer's next start, which is immediate when it is idle between turns
+  const switchLanguage = useCallback((next: LanguageCode) => {
+    if (activeLanguageRef.current === next) return;
+    recognizerLog.info(`Switching recognition language to ${next}`);
+    activeLanguageRef.current = next;
+    lowConfidenceTurnsRef.current = 0;
+    sessionRef.current.locale = next;
+    setActiveLanguage(next);
+
+    const recognition = recognitionRef.current;
+    if (!recognition) return;
+    recognition.configure({ lang: next });
+    // A running recognizer keeps its language, so restart it; onEnd brings it back
+    if (stateRef.current.micActive) recognition.abort();
+  }, []);
+
+  useEffect(() => {
+    if (language !== "auto") switchLanguage(language);
+  }, [language, switchLanguage]);
+
+  const stopListening = useCallback(() => {
+    if (!recognitionRef.current) return;
+    try {
+      recognitionRef.current.stop();
+    } catch (e) {
+      recognizerLog.error("Could not stop recognition", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (modeRef.current === mode) return;
+    log.info(`Switching to ${mode} listening`);
+    modeRef.current = mode;
+    setArmed(false);
+    recognitionRef.current?.configure({ continuous: mode !== "push-to-talk" });
+    if (stateRef.current.status === "idle") return;
+
+    if (mode === "push-to-talk") {
+      micRestarts.cancel();
+      stopListening();
+    } else {
+      // A recognizer still finishing a push-to-talk utterance restarts from onEnd instead
+      scheduleMicStart();
+    }
+  }, [mode, stopListening, scheduleMicStart, setArmed, micRestarts]);
+
+  const cancelPendingTurn = useCallback(() => {
+    if (!turnAbortRef.current) return;
+    turnAbortRef.current.abort();
+    turnAbortRef.current = null;
+  }, []);
+
+  // Starts the countdown after which the last reply can no longer come back as echo
+  const endEchoWindow = useCallback(() => {
+    if (echoRef.current.until === Infinity) echoRef.current.until = performance.now() + ECHO_TAIL_MS;
+  }, []);
+
+  const isEcho = useCallback((transcript: string) => {
+    const { text, until } = echoRef.current;
+    return text !== "" && performance.now() <= until && isLikelyEcho(transcript, text);
+  }, []);
+
+  const dropKeptReply = useCallback(() => {
+    keptReplyRef.current?.audio.discard();
+    keptReplyRef.current = null;
+  }, []);
+
+  const stopAiAudio = useCallback(() => {
+    endEchoWindow();
+    dropKeptReply();
+    const sink = audioSinkRef.current;
+    if (!sink) return;
+    playbackLog.debug("Stopping AI audio");
+    // Also while a reply is still buffering and not yet playing, so its play() gives up
+    sink.stop();
+  }, [endEchoWindow, dropKeptReply]);
+
+  // Once a turn is over, whether answered, failed or cut short, its marks join the summary
+  const finishTurnTiming = useCallback((turnId: number) => {
+    const timing = collectTurnTiming(turnId);
+    if (!timing) return;
+    metricsLog.debug(`Turn ${turnId} timing`, timing.offsets);
+    setTurnTimings((timings) => [...timings, timing].slice(-TURN_METRICS_LIMIT));
+  }, []);
+
+  // Drops the reply being fetched or spoken; the mic comes back on INTERRUPT's way to listening
+  const interruptTurn = useCallback(() => {
+    log.info("Manual interrupt triggered");
+    markInterrupted(stateRef.current.turnId);
+    finishTurnTiming(stateRef.current.turnId);
+    cancelPendingTurn();
+    stopAiAudio();
+    setReplyText("");
+    send({ type: "INTERRUPT" });
+  }, [send, cancelPendingTurn, stopAiAudio, markInterrupted, finishTurnTiming]);
+
+  const duckAiAudio = useCallback(() => {
+    const sink = audioSinkRef.current;
+    if (!sink?.playing || duckedRef.current) return;
+    playbackLog.debug("Voice detected over AI - ducking playback");
+    duckedRef.current = true;
+    sink.setVolume(DUCKED_VOLUME);
+  }, []);
+
+  const restoreAiAudio = useCallback(() => {
+    if (!duckedRef.current) return;
+    duckedRef.current = false;
+    audioSinkRef.current?.setVolume(1);
+  }, []);
+
+  const handlePlaybackFinished = useCallback(
+    (event: Extract<ConversationEvent, { type: "PLAYBACK_ENDED" | "PLAYBACK_FAILED" }>) => {
+      endEchoWindow();
+      finishTurnTiming(event.turnId);
+      if (event.type === "PLAYBACK_ENDED" && keptReplyRef.current?.turnId === event.turnId) dropKeptReply();
+      if (send(event).status === "listening") setReplyText("");
+      scheduleMicStart();
+    },
+    [send, scheduleMicStart, endEchoWindow, finishTurnTiming, dropKeptReply],
+  );
+
+  const playReplyAudio = useCallback(
+    async (audio: AudioSource, mimeType: string, turnId: number) => {
+      const sink = audioSinkRef.current;
+      if (!sink || !isCurrentTurn(stateRef.current, turnId)) {
+        playbackLog.debug(`Refusing audio for stale turn ${turnId}`);
+        discardAudioSource(audio);
+        return;
+      }
+      try {
+        playbackLog.info("Audio playback started");
+        playingTurnRef.current = turnId;
+        restoreAiAudio();
+        await sink.play(audio, mimeType);
+        // Interrupted while buffering, by a sink that started playing anyway
+        if (!isCurrentTurn(stateRef.current, turnId)) {
+          playbackLog.debug(`Turn ${turnId} ended before its audio started`);
+          if (playingTurnRef.current === turnId) sink.stop();
+          return;
+        }
+        markTurn(turnId, "playback-start");
+        send({ type: "PLAYBACK_STARTED", turnId });
+        answerTurn(turnId);
+        // Keep mic active during AI speech to allow interruptions
+        scheduleMicStart();
+      } catch (error) {
+        // Superseded by stop() or a newer reply
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        playbackLog.error("Audio playback exception", error);
+        updateTurn(turnId, { status: "failed" });
+        reportError(fromPlaybackError(error, turnId));
+        handlePlaybackFinished({ type: "PLAYBACK_FAILED", turnId });
+      }
+    },
+    [send, scheduleMicStart, handlePlaybackFinished, answerTurn, updateTurn, restoreAiAudio, reportError],
+  );
+
+  const sendToBackend = useCallback(
+    async (userText: string, turnId: number) => {
+      const session = sessionRef.current;
+      const request = {
+        text: userText,
+        sessionId: session.id,
+        turnIndex: session.turnIndex++,
+        locale: session.locale,
+        // This turn is still pending, so it never ends up in its own context
+        context: buildContext(getTurns(), session.id),
+      };
+      backendLog.info("Sending to backend", { ...request, url, turnId });
+
+      // Only the latest turn may hold a request open
+      cancelPendingTurn();
+      const controller = new AbortController();
+      turnAbortRef.current = controller;
+
+      try {
+        markTurn(turnId, "request-sent");
+        const reply = await client.sendTurn(request, {
+          signal: controller.signal,
+          onFirstByte: () => markTurn(turnId, "first-byte"),
+          onBodyReceived: () => markTurn(turnId, "full-body"),
+        });
+        const size = reply.audio instanceof Blob ? reply.audio.size : null;
+        backendLog.info(`Fetch completed in ${reply.meta.fetchDurationMs}ms`, {
+          status: reply.meta.status,
+          contentType: reply.meta.contentType,
+          attempts: reply.meta.attempts,
+        });
+        backendLog.info("Audio reply received", { type: reply.mimeType, size: size ?? "streaming" });
+        setLastReply({ ...reply.meta, turnId, mimeType: reply.mimeType, size, receivedAt: Date.now() });
+
+        let audio = reply.audio;
+        if (isCurrentTurn(stateRef.current, turnId)) {
+          setReplyText(reply.text ?? "");
+          // Audio-only replies cannot be told apart from the customer, so nothing is filtered for them
+          echoRef.current = { text: reply.text ?? "", until: Infinity };
+          const orderTotal = reply.metadata?.orderTotal;
+          updateTurn(turnId, {
+            replyText: reply.text,
+            orderTotal: typeof orderTotal === "number" ? orderTotal : undefined,
+          });
+          dropKeptReply();
+          const kept = keepAudioSource(reply.audio, reply.mimeType);
+          keptReplyRef.current = { turnId, text: reply.text ?? "", mimeType: reply.mimeType, audio: kept };
+          audio = kept.source;
+        }
+        await playReplyAudio(audio, reply.mimeType, turnId);
+      } catch (error) {
+        if (error instanceof VoiceBackendError && error.kind === "aborted") {
+          backendLog.debug(`Cancelled request for turn ${turnId}`);
+          return;
+        }
+        backendLog.error("Backend error", error);
+        finishTurnTiming(turnId);
+        if (send({ type: "RESPONSE_FAILED", turnId }).status === "listening") {
+          updateTurn(turnId, { status: "failed" });
+          reportError(fromBackendError(error, userText));
+        }
+        scheduleMicStart();
+      } finally {
+        if (turnAbortRef.current === controller) turnAbortRef.current = null;
+      }
+    },
+    [
+      client,
+      url,
+      send,
+      scheduleMicStart,
+      playReplyAudio,
+      cancelPendingTurn,
+      updateTurn,
+      getTurns,
+      reportError,
+      finishTurnTiming,
+      dropKeptReply,
+    ],
+  );
+
+  // Plays a reply whose playback failed again; the backend already handled its turn
+  const replayReply = useCallback(
+    (turnId: number) => {
+      const kept = keptReplyRef.current;
+      if (!kept || kept.turnId !== turnId) return false;
+      const previous = stateRef.current;
+      if (send({ type: "REPLAY", turnId }) === previous) return false;
+      log.info(`Replaying the reply to turn ${turnId}`);
+      setReplyText(kept.text);
+      echoRef.current = { text: kept.text, until: Infinity };
+
+      void kept.audio.copy.then(async (audio) => {
+        if (audio) return playReplyAudio(audio, kept.mimeType, turnId);
+        playbackLog.warn(`The reply to turn ${turnId} is no longer available`);
+        if (keptReplyRef.current === kept) dropKeptReply();
+        handlePlaybackFinished({ type: "PLAYBACK_FAILED", turnId });
+      });
+      return true;
+    },
+    [send, playReplyAudio, handlePlaybackFinished, dropKeptReply],
+  );
+
+  // Starts a turn for an utterance, spoken or typed; false when the machine does not accept it now
+  const beginTurn = useCallback(
+    (transcript: string) => {
+      const previous = stateRef.current;
+      const next = send({ type: "FINAL_TRANSCRIPT", transcript });
+      setInterimTranscript("");
+      if (next === previous) return false;
+      markTurn(next.turnId, "speech-end");
+      setArmed(false);
+
+      if (isBargeIn(previous, next)) {
+        log.info("User interrupted AI - stopping playback");
+        stopAiAudio();
+        markInterrupted(previous.turnId);
+        finishTurnTiming(previous.turnId);
+      }
+      // A reply that failed to play is not offered again once the customer has moved on
+      dropKeptReply();
+      startTurn(next.turnId, next.transcript, sessionRef.current.id);
+
+      // Stop recognition while this input is processed
+      stopListening();
+      setReplyText("");
+      setUserTranscript(next.transcript);
+      if (transcriptTimeoutRef.current) clearTimeout(transcriptTimeoutRef.current);
+      transcriptTimeoutRef.current = setTimeout(() => setUserTranscript(""), TRANSCRIPT_CLEAR_DELAY);
+
+      void sendToBackend(next.transcript, next.turnId);
+      return true;
+    },
+    [
+      send,
+      setArmed,
+      stopAiAudio,
+      markInterrupted,
+      finishTurnTiming,
+      startTurn,
+      stopListening,
+      sendToBackend,
+      dropKeptReply,
+    ],
+  );
+
+  const handleTranscript = useCallback(
+    (result: SpeechRecognizerResult) => {
+      recognizerLog.info("Speech recognized", result.transcript, { confidence: result.confidence });
+      if (isEcho(result.transcript)) {
+        recognizerLog.info("Ignoring the assistant's own voice", result.transcript);
+        setInterimTranscript("");
+        setEchoStats((stats) => ({ ...stats, finals: stats.finals + 1 }));
+        return;
+      }
+      let transcript = result.transcript;
+
+      if (modeRef.current === "wake-word" && !wakeArmedRef.current) {
+        const wake = matchWakeWord(transcript);
+        if (!wake.heard) {
+          recognizerLog.debug("Ignoring speech without the wake phrase");
+          return;
+        }
+        if (!wake.remainder) {
+          // The wake phrase alone also cuts the AI off, ready for what comes next
+          const { status } = stateRef.current;
+          if (status === "sending" || status === "speaking") interruptTurn();
+          setArmed(true);
+          return;
+        }
+        transcript = wake.remainder;
+      }
+      if (!beginTurn(transcript)) return;
+
+      // Sent with the language it was heard in; the next turn may listen for another one
+      if (language === "auto") {
+        const choice = pickAutoLanguage(activeLanguageRef.current, result, lowConfidenceTurnsRef.current);
+        lowConfidenceTurnsRef.current = choice.lowConfidenceTurns;
+        switchLanguage(choice.language);
+      }
+    },
+    [beginTurn, language, switchLanguage, matchWakeWord, interruptTurn, setArmed, isEcho],
+  );
+
+  // Interim text is only shown, never sent, but speech over the AI cuts it off without waiting for the final
+  const handleInterim = useCallback(
+    (result: SpeechRecognizerResult) => {
+      const transcript = result.transcript.trim();
+      const { status } = stateRef.current;
+      if (status === "sending" || status === "idle") return;
+      if (isEcho(transcript)) {
+        setEchoStats((stats) => ({ ...stats, interims: stats.interims + 1 }));
+        return;
+      }
+      if (modeRef.current === "wake-word" && !wakeArmedRef.current && !matchWakeWord(transcript).heard) return;
+
+      setInterimTranscript(transcript);
+      if (status === "speaking" && transcript.length >= INTERIM_BARGE_IN_MIN_LENGTH) {
+        log.info("User started speaking over AI - stopping playback");
+        interruptTurn();
+      }
+    },
+    [matchWakeWord, interruptTurn, isEcho],
+  );
+
+  // Detected before the recognizer has any words, so it works for short interjections like "stop"
+  const handleSpeechStart = useCallback(() => {
+    // Push-to-talk interrupts by pressing instead
+    if (stateRef.current.status !== "speaking" || modeRef.current === "push-to-talk") return;
+    // Chatter around a kiosk waiting for its wake phrase is never allowed to cut the reply off
+    const waitingForWake = modeRef.current === "wake-word" && !wakeArmedRef.current;
+    if (bargeIn === "stop" && !waitingForWake) {
+      log.info("Voice detected over AI - stopping playback");
+      interruptTurn();
+      return;
+    }
+    duckAiAudio();
+  }, [bargeIn, interruptTurn, duckAiAudio]);
+
+  const disableAssistant = useCallback(() => {
+    micRestarts.cancel();
+    finishTurnTiming(stateRef.current.turnId);
+    send({ type: "DISABLE" });
+    cancelPendingTurn();
+    stopListening();
+    stopAiAudio();
+    setReplyText("");
+    setInterimTranscript("");
+    setArmed(false);
+    log.info("Assistant disabled");
+  }, [send, stopAiAudio, stopListening, cancelPendingTurn, setArmed, micRestarts, finishTurnTiming]);
+
+  const handleRecognizerError = useCallback(
+    (error: SpeechRecognizerError) => {
+      recognizerLog.error("Speech recognition error", error.code);
+      const voiceError = fromRecognizerError(error);
+      // A blocked mic fails every restart the same way, so switch off instead of retrying
+      if (voiceError?.category === "mic-permission") disableAssistant();
+      // Silence means the mic itself works; anything else counts against the restart budget
+      if (voiceError?.category === "no-speech") micRestarts.recordSuccess();
+      else if (voiceError) micRestarts.recordFailure();
+      // Silence is normal between turns; it is only news when the customer held the button to talk
+      if (!voiceError || (voiceError.category === "no-speech" && modeRef.current !== "push-to-talk")) return;
+      reportError(voiceError);
+    },
+    [reportError, disableAssistant, micRestarts],
+  );
+
+  useEffect(() => {
+    if (micUnavailable && stateRef.current.status !== "idle") disableAssistant();
+  }, [micUnavailable, disableAssistant]);
+
+  // Playback that fails after it started, e.g. a stream that breaks off
+  const handlePlaybackError = useCallback(
+    (error: Error) => {
+      playbackLog.error("Audio playback error", error);
+      const turnId = playingTurnRef.current;
+      if (isCurrentTurn(stateRef.current, turnId)) reportError(fromPlaybackError(error, turnId));
+      handlePlaybackFinished({ type: "PLAYBACK_FAILED", turnId });
+    },
+    [reportError, handlePlaybackFinished],
+  );
+
+  // Recognizer callbacks are bound once and always call the latest handlers
+  const handlersRef = useRef({
+    handleTranscript,
+    handleInterim,
+    handleSpeechStart,
+    handleRecognizerError,
+    handlePlaybackError,
+    restoreAiAudio,
+    handlePlaybackFinished,
+    scheduleMicStart,
+    send,
+  });
+  handlersRef.current = {
+    handleTranscript,
+    handleInterim,
+    handleSpeechStart,
+    handleRecognizerError,
+    handlePlaybackError,
+    restoreAiAudio,
+    handlePlaybackFinished,
+    scheduleMicStart,
+    send,
+  };
+
+  useEffect(() => {
+    const recognition = createRecognizer({
+      ...defaultRecognizerOptions,
+      lang: activeLanguageRef.current,
+      continuous: modeRef.current !== "push-to-talk",
+    });
+    setVoiceAvailable(recognition !== null);
+    if (!recognition) return;
+
+    recognition.setHandlers({
+      onResult: (result) => {
+        micRestarts.recordSuccess();
+        if (result.isFinal) handlersRef.current.handleTranscript(result);
+        else handlersRef.current.handleInterim(result);
+      },
+      // onEnd always follows an error, which is where the restart happens
+      onError: (error) => handlersRef.current.handleRecognizerError(error),
+      onEnd: () => {
+        recognizerLog.debug("Recognition ended");
+        // Whatever was not finalised by now never will be
+        setInterimTranscript("");
+        const next = handlersRef.current.send({ type: "MIC_STOPPED" });
+        if (canStartMic(next)) {
+          handlersRef.current.scheduleMicStart();
+        }
+      },
+    });
+    recognitionRef.current = recognition;
+
+    return () => {
+      recognition.setHandlers({});
+      try {
+        recognition.abort();
+      } catch (e) {
+        // Ignore
+      }
+      recognitionRef.current = null;
+    };
+  }, [createRecognizer, micRestarts]);
+
+  useEffect(() => {
+    const sink = createAudioSink();
+    sink.setHandlers({
+      onEnded: () => {
+        playbackLog.info("Audio playback ended");
+        markTurn(playingTurnRef.current, "playback-end");
+        handlersRef.current.handlePlaybackFinished({ type: "PLAYBACK_ENDED", turnId: playingTurnRef.current });
+      },
+      onError: (error) => handlersRef.current.handlePlaybackError(error),
+    });
+    audioSinkRef.current = sink;
+
+    return () => {
+      sink.dispose();
+      audioSinkRef.current = null;
+    };
+  }, [createAudioSink]);
+
+  const vadEnabled = vad !== false;
+  const { thresholdDb, attackMs, hangoverMs } = vad || {};
+
+  useEffect(() => {
+    if (!vadEnabled) return;
+    const detector = createVoiceActivityDetector(defaultVoiceActivityOptions);
+    if (!detector) return;
+
+    detector.setHandlers({
+      onSpeechStart: () => handlersRef.current.handleSpeechStart(),
+      onSpeechEnd: () => handlersRef.current.restoreAiAudio(),
+    });
+    vadRef.current = detector;
+
+    return () => {
+      detector.setHandlers({});
+      detector.stop();
+      vadRef.current = null;
+    };
+  }, [createVoiceActivityDetector, vadEnabled]);
+
+  useEffect(() => {
+    vadRef.current?.configure({
+      thresholdDb: thresholdDb ?? defaultVoiceActivityOptions.thresholdDb,
+      attackMs: attackMs ?? defaultVoiceActivityOptions.attackMs,
+      hangoverMs: hangoverMs ?? defaultVoiceActivityOptions.hangoverMs,
+    });
+  }, [thresholdDb, attackMs, hangoverMs, createVoiceActivityDetector, vadEnabled]);
+
+  // The detector only holds the mic while the assistant is on, and never for a typed-only conversation
+  const vadActive = state.status !== "idle" && voiceAvailable;
+  useEffect(() => {
+    const detector = vadRef.current;
+    if (!vadActive || !detector) return;
+    detector.start().catch((error) => vadLog.warn("Voice activity detection unavailable", error));
+    return () => detector.stop();
+  }, [vadActive, createVoiceActivityDetector, vadEnabled]);
+
+  useEffect(() => {
+    return () => {
+      micRestarts.cancel();
+      if (transcriptTimeoutRef.current) clearTimeout(transcriptTimeoutRef.current);
+      if (wakeTimeoutRef.current) clearTimeout(wakeTimeoutRef.current);
+      turnAbortRef.current?.abort();
+    };
+  }, [micRestarts]);
+
+  // Read every animation frame by the visualiser, so these never cause renders
+  const getInputLevel = useCallback(() => vadRef.current?.levelDb ?? SILENCE_DB, []);
+  const getOutputWaveform = useCallback(
+    (samples: Float32Array) => audioSinkRef.current?.getWaveform(samples) ?? false,
+    [],
+  );
+
+  // Typed messages take the same path as spoken ones and get a spoken reply
+  const sendText = useCallback(
+    (text: string) => {
+      const { status } = stateRef.current;
+      if (status === "idle") send({ type: "ENABLE" });
+      // A new message replaces the one still waiting for its reply
+      if (status === "sending") interruptTurn();
+      log.info("Typed message", text);
+      return beginTurn(text);
+    },
+    [send, interruptTurn, beginTurn],
+  );
+
+  const toggleAssistant = useCallback(() => {
+    if (!recognitionRef.current) {
+      recognizerLog.error("Speech recognition not supported in this browser");
+      return;
+    }
+
+    const { status } = stateRef.current;
+
+    if (status === "sending" || status === "speaking") {
+      interruptTurn();
+      scheduleMicStart();
+      return;
+    }
+
+    if (status === "idle") {
+      // Switching on again is the customer's way of retrying a mic that gave up
+      micRestarts.reset();
+      setMicUnavailable(false);
+      send({ type: "ENABLE" });
+      scheduleMicStart();
+      log.info("Assistant enabled");
+      return;
+    }
+
+    disableAssistant();
+    // Switching off hands the kiosk to the next customer, who starts a fresh conversation and never
+    // sees the previous one's order. A mic that gives up switches off too, but keeps both.
+    sessionRef.current = createSession(sessionRef.current.locale);
+    clearHistory();
+  }, [send, scheduleMicStart, interruptTurn, disableAssistant, micRestarts, clearHistory]);
+
+  // Push-to-talk: holding records one utterance, interrupting the AI if it is answering
+  const pressToTalk = useCallback(() => {
+    if (!recognitionRef.current) {
+      recognizerLog.error("Speech recognition not supported in this browser");
+      return;
+    }
+    if (talkHeldRef.current) return;
+    talkHeldRef.current = true;
+
+    const { status } = stateRef.current;
+    if (status === "idle") {
+      micRestarts.reset();
+      setMicUnavailable(false);
+      send({ type: "ENABLE" });
+    }
+    if (status === "sending" || status === "speaking") interruptTurn();
+    // While the last utterance is still being finalised, onEnd opens the mic again
+    startListening();
+  }, [send, startListening, interruptTurn, micRestarts]);
+
+  // Releasing makes the recognizer deliver what it heard, which sends it
+  const releaseToTalk = useCallback(() => {
+    if (!talkHeldRef.current) return;
+    talkHeldRef.current = false;
+    micRestarts.cancel();
+    stopListening();
+  }, [stopListening, micRestarts]);
+
+  return {
+    state,
+    userTranscript,
+    interimTranscript,
+    replyText,
+    activeLanguage,
+    wakeArmed,
+    wakePhrase: phrases[0],
+    echoStats,
+    lastReply,
+    turnTimings,
+    turns: history.turns,
+    clearHistory: history.clearHistory,
+    getInputLevel,
+    getOutputWaveform,
+    voiceAvailable,
+    micUnavailable,
+    sendText,
+    replayReply,
+    toggleAssistant,
+    pressToTalk,
+    releaseToTalk,
+  };
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { loadVoiceConfig, resolveEndpoint, resolveStaticEndpoint } from "@/lib/voice/endpoint-config";
+
+export function useVoiceEndpoint() {
+  const search = window.location.search;
+
+  const { data } = useQuery({
+    queryKey: ["voice-endpoint", search],
+    queryFn: async () => resolveEndpoint(search, await loadVoiceConfig()),
+    placeholderData: () => resolveStaticEndpoint(search),
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return data ?? resolveStaticEndpoint(search);
+}
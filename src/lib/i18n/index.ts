@@ -0,0 +1,58 @@
+import { en, type MessageKey, type Messages, type PluralMessage } from "@/lib/i18n/messages/en";
+import { gu } from "@/lib/i18n/messages/gu";
+import { hi } from "@/lib/i18n/messages/hi";
+
+// UI localisation. The interface follows the conversation language; Marathi speakers get the
+// Hindi catalog (same script, widely understood) until a Marathi catalog exists.
+
+export type UiLocale = "en" | "hi" | "gu";
+export type MessageParams = Record<string, string | number>;
+
+export const catalogs: Record<UiLocale, Messages> = { en, hi, gu };
+
+// Intl formatting follows Indian conventions (lakh grouping) in every catalog
+const INTL_LOCALES: Record<UiLocale, string> = { en: "en-IN", hi: "hi-IN", gu: "gu-IN" };
+
+export function resolveUiLocale(tag: string | undefined): UiLocale {
+  const base = tag?.toLowerCase().split("-")[0];
+  if (base === "hi" || base === "mr") return "hi";
+  if (base === "gu") return "gu";
+  return "en";
+}
+
+export function detectUiLocale(languages: readonly string[] = navigator.languages ?? []): UiLocale {
+  const supported = languages.find((tag) => ["en", "hi", "gu", "mr"].includes(tag.toLowerCase().split("-")[0]));
+  return resolveUiLocale(supported);
+}
+
+export function createTranslator(locale: UiLocale) {
+  const intlLocale = INTL_LOCALES[locale];
+  const numberFormat = new Intl.NumberFormat(intlLocale);
+  const currencyFormat = new Intl.NumberFormat(intlLocale, { style: "currency", currency: "INR" });
+  const pluralRules = new Intl.PluralRules(intlLocale);
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    options ? new Intl.NumberFormat(intlLocale, options).format(value) : numberFormat.format(value);
+
+  /** Amounts in rupees, e.g. ₹1,25,000.00 */
+  const formatCurrency = (amount: number) => currencyFormat.format(amount);
+
+  const t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message: string | PluralMessage = catalogs[locale][key] ?? en[key];
+    const template =
+      typeof message === "string"
+        ? message
+        : (message[pluralRules.select(Number(params.count ?? 0))] ?? message.other);
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  };
+
+  return { locale, intlLocale, t, formatNumber, formatCurrency };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
+export type { MessageKey };
@@ -0,0 +1,128 @@
+// Source catalog: every other catalog is checked against these keys. Values may contain
+// {placeholders}; plural messages map Intl.PluralRules categories to text and always have `other`.
+
+export const en = {
+  "app.title": "Talk to Anand Mithaiwala 🍬",
+  "app.subtitle": "Your friendly voice assistant for sweet conversations",
+
+  "status.speaking": "🔊 AI Speaking - Click to interrupt",
+  "status.processing": "⏳ Processing your request...",
+  "status.listening": "👂 Listening...",
+  "status.ready": "Ready - Start speaking",
+  "status.inactive": "Tap to activate voice assistant",
+  "status.holdToTalk": "Hold the mic button or spacebar to talk",
+  "status.releaseToSend": "👂 Listening... release to send",
+  "status.sayWakePhrase": 'Say "{phrase}" to start',
+  "status.wakeArmed": "👋 I'm listening - go ahead",
+  "status.typeToChat": "Type your message below",
+  "status.micUnavailable": "🎤 Microphone unavailable - tap to try again",
+
+  "bubble.userSaid": 'You said: "{text}"',
+  "bubble.userSaying": '"{text}..."',
+  "bubble.ai": "AI: {text}",
+  "bubble.processing": "Processing...",
+  "bubble.speaking": "Speaking...",
+
+  "history.title": "Conversation",
+  "history.turnCount": { one: "{count} turn", other: "{count} turns" },
+  "history.clear": "Clear",
+  "history.thinking": "Thinking...",
+  "history.failed": "No reply - something went wrong",
+  "history.cancelled": "Cancelled",
+  "history.spokenReply": "🔊 (spoken reply)",
+  "history.interrupted": "interrupted",
+  "history.latencySeconds": "{seconds}s",
+  "history.latencyMs": "{ms}ms",
+  "history.orderTotal": "Order total: {amount}",
+
+  "language.label": "Conversation language",
+  "language.auto": "Auto ({language})",
+
+  "mode.label": "Listening mode",
+  "mode.continuous": "Always listening",
+  "mode.pushToTalk": "Push to talk",
+  "mode.wakeWord": "Wake word",
+
+  "environment.label": "Backend: {url}",
+  "debug.open": "Debug",
+  "debug.title": "Voice pipeline",
+  "debug.description": "Live state, the last backend reply and recent events. Attach the downloaded logs to bug reports.",
+  "debug.state": "State",
+  "debug.lastReply": "Last backend reply",
+  "debug.headers": { one: "{count} response header", other: "{count} response headers" },
+  "debug.noReply": "No reply received yet.",
+  "debug.events": "Events, newest first",
+  "debug.noEvents": "Nothing logged yet.",
+  "debug.clearLogs": "Clear",
+  "debug.downloadLogs": "Download logs",
+  "debug.latency": "Turn latency",
+
+  "latency.p50": "Median (p50)",
+  "latency.p95": "p95",
+  "latency.requestSent": "Sent",
+  "latency.firstByte": "First byte",
+  "latency.fullBody": "Full reply",
+  "latency.playbackStart": "Speaking",
+  "latency.playbackEnd": "Done",
+  "latency.turns": { one: "Time after the customer stopped talking, over the last {count} turn", other: "Time after the customer stopped talking, over the last {count} turns" },
+  "latency.empty": "No finished turns yet.",
+
+  "typed.placeholder": "Type your message...",
+  "typed.send": "Send",
+
+  "voiceUnavailable.title": "Voice is not available",
+  "voiceUnavailable.unsupported": "This browser cannot recognize speech. Type your message instead - replies are still spoken aloud. Chrome, Edge and Safari support voice.",
+  "voiceUnavailable.insecure": "Voice needs a secure (https) connection. Type your message instead - replies are still spoken aloud.",
+
+  "permission.onboarding.title": "Talk to us with your voice",
+  "permission.onboarding.description": "The assistant uses your microphone to hear your order. It only listens while the assistant is switched on.",
+  "permission.onboarding.prompt": "Your browser will ask for permission next - choose Allow.",
+  "permission.allow": "Allow microphone",
+  "permission.notNow": "Not now",
+  "permission.reload": "Reload page",
+  "permission.denied.title": "Microphone access is blocked",
+  "permission.denied.description": "The assistant can't hear you until the microphone is allowed for this site.",
+  "permission.denied.chrome": "Click the site icon to the left of the address bar, switch Microphone on, then reload the page.",
+  "permission.denied.edge": "Click the lock icon to the left of the address bar, open Permissions for this site, set Microphone to Allow, then reload the page.",
+  "permission.denied.firefox": "Click the crossed-out microphone icon in the address bar, clear the blocked permission, then reload the page.",
+  "permission.denied.safari": "Open Safari > Settings for This Website (on iPhone: Settings > Apps > Safari > Microphone), set Microphone to Allow, then reload the page.",
+  "permission.denied.other": "Open your browser's site settings, allow the microphone for this page, then reload it.",
+
+  "error.retry": "Retry",
+  "error.micPermission.title": "Microphone blocked",
+  "error.micPermission.description": "Allow microphone access in your browser's site settings to talk to the assistant.",
+  "error.micUnavailable.title": "No microphone found",
+  "error.micUnavailable.description": "Check that a microphone is connected and not in use by another app.",
+  "error.noSpeech.title": "Didn't catch that",
+  "error.noSpeech.description": "Hold the button and speak a little louder or closer to the microphone.",
+  "error.speechNetwork.title": "Speech service unreachable",
+  "error.speechNetwork.description": "Voice recognition needs an internet connection. Check your network.",
+  "error.speechLanguage.title": "Language not supported",
+  "error.speechLanguage.description": "This browser cannot recognize the selected language. Try another one.",
+  "error.speechFailed.title": "Voice recognition stopped",
+  "error.speechFailed.description": "Something went wrong while listening. Tap the mic to try again.",
+  "error.backendOffline.title": "Can't reach the shop",
+  "error.backendOffline.description": "Check your internet connection and try again.",
+  "error.backendTimeout.title": "The reply is taking too long",
+  "error.backendTimeout.description": "The assistant did not answer in time. Try again.",
+  "error.backendBusy.title": "The assistant is busy",
+  "error.backendBusy.description": "Too many customers at once. Try again in a moment.",
+  "error.backendServer.title": "The assistant ran into a problem",
+  "error.backendServer.description": "Our side had an error (HTTP {status}). Try again.",
+  "error.backendRejected.title": "The request was not accepted",
+  "error.backendRejected.description": "The assistant could not handle this request (HTTP {status}).",
+  "error.backendInvalid.title": "Couldn't understand the reply",
+  "error.backendInvalid.description": "The assistant sent something we could not play. Try again.",
+  "error.playbackBlocked.title": "Tap to hear the reply",
+  "error.playbackBlocked.description": "Your browser blocked sound until you tap the page.",
+  "error.playbackFailed.title": "Couldn't play the reply",
+  "error.playbackFailed.description": "The audio could not be played. Try again.",
+
+  "notFound.title": "404",
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+} as const;
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type MessageKey = keyof typeof en;
+export type Messages = { [Key in MessageKey]: (typeof en)[Key] extends string ? string : PluralMessage };
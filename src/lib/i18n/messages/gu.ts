@@ -0,0 +1,123 @@
+import type { Messages } from "@/lib/i18n/messages/en";
+
+export const gu: Messages = {
+  "app.title": "આનંદ મીઠાઈવાલા સાથે વાત કરો 🍬",
+  "app.subtitle": "મીઠી વાતો માટે તમારો મૈત્રીપૂર્ણ વૉઇસ આસિસ્ટન્ટ",
+
+  "status.speaking": "🔊 AI બોલી રહ્યું છે - રોકવા માટે ટૅપ કરો",
+  "status.processing": "⏳ તમારી વિનંતી સમજી રહ્યા છીએ...",
+  "status.listening": "👂 સાંભળી રહ્યા છીએ...",
+  "status.ready": "તૈયાર - બોલવાનું શરૂ કરો",
+  "status.inactive": "વૉઇસ આસિસ્ટન્ટ ચાલુ કરવા ટૅપ કરો",
+  "status.holdToTalk": "બોલવા માટે માઇક બટન અથવા સ્પેસબાર દબાવી રાખો",
+  "status.releaseToSend": "👂 સાંભળી રહ્યા છીએ... મોકલવા માટે છોડો",
+  "status.sayWakePhrase": 'શરૂ કરવા માટે "{phrase}" કહો',
+  "status.wakeArmed": "👋 હું સાંભળું છું - બોલો",
+  "status.typeToChat": "નીચે તમારો સંદેશ લખો",
+  "status.micUnavailable": "🎤 માઇક્રોફોન ઉપલબ્ધ નથી - ફરી પ્રયાસ કરવા ટૅપ કરો",
+
+  "bubble.userSaid": 'તમે કહ્યું: "{text}"',
+  "bubble.userSaying": '"{text}..."',
+  "bubble.ai": "AI: {text}",
+  "bubble.processing": "સમજી રહ્યા છીએ...",
+  "bubble.speaking": "બોલી રહ્યા છીએ...",
+
+  "history.title": "વાતચીત",
+  "history.turnCount": { one: "{count} વાર", other: "{count} વાર" },
+  "history.clear": "સાફ કરો",
+  "history.thinking": "વિચારી રહ્યા છીએ...",
+  "history.failed": "જવાબ ન મળ્યો - કંઈક ખોટું થયું",
+  "history.cancelled": "રદ કર્યું",
+  "history.spokenReply": "🔊 (બોલાયેલો જવાબ)",
+  "history.interrupted": "વચ્ચે રોક્યું",
+  "history.latencySeconds": "{seconds} સે.",
+  "history.latencyMs": "{ms} મિ.સે.",
+  "history.orderTotal": "કુલ ઑર્ડર: {amount}",
+
+  "language.label": "વાતચીતની ભાષા",
+  "language.auto": "આપમેળે ({language})",
+
+  "mode.label": "સાંભળવાની રીત",
+  "mode.continuous": "હંમેશા સાંભળો",
+  "mode.pushToTalk": "દબાવીને બોલો",
+  "mode.wakeWord": "વેક શબ્દ",
+
+  "environment.label": "બૅકએન્ડ: {url}",
+  "debug.open": "ડીબગ",
+  "debug.title": "વૉઇસ પાઇપલાઇન",
+  "debug.description": "હાલની સ્થિતિ, બૅકએન્ડનો છેલ્લો જવાબ અને તાજેતરની ઘટનાઓ. બગ રિપોર્ટ સાથે ડાઉનલોડ કરેલા લૉગ જોડો.",
+  "debug.state": "સ્થિતિ",
+  "debug.lastReply": "બૅકએન્ડનો છેલ્લો જવાબ",
+  "debug.headers": { one: "{count} રિસ્પૉન્સ હેડર", other: "{count} રિસ્પૉન્સ હેડર" },
+  "debug.noReply": "હજુ સુધી કોઈ જવાબ મળ્યો નથી.",
+  "debug.events": "ઘટનાઓ, નવી પહેલા",
+  "debug.noEvents": "હજુ સુધી કંઈ લૉગ થયું નથી.",
+  "debug.clearLogs": "સાફ કરો",
+  "debug.downloadLogs": "લૉગ ડાઉનલોડ કરો",
+  "debug.latency": "દરેક વારની ઢીલ",
+
+  "latency.p50": "મધ્યક (p50)",
+  "latency.p95": "p95",
+  "latency.requestSent": "મોકલ્યું",
+  "latency.firstByte": "પહેલો બાઇટ",
+  "latency.fullBody": "પૂરો જવાબ",
+  "latency.playbackStart": "બોલવાનું શરૂ",
+  "latency.playbackEnd": "પૂર્ણ",
+  "latency.turns": { one: "ગ્રાહકે બોલવાનું બંધ કર્યા પછીનો સમય, છેલ્લી {count} વારમાં", other: "ગ્રાહકે બોલવાનું બંધ કર્યા પછીનો સમય, છેલ્લી {count} વારમાં" },
+  "latency.empty": "હજુ સુધી કોઈ વાતચીત પૂરી થઈ નથી.",
+
+  "typed.placeholder": "તમારો સંદેશ લખો...",
+  "typed.send": "મોકલો",
+
+  "voiceUnavailable.title": "અવાજ ઉપલબ્ધ નથી",
+  "voiceUnavailable.unsupported": "આ બ્રાઉઝર અવાજ ઓળખી શકતું નથી. તમારો સંદેશ લખો - જવાબ હજુ પણ બોલીને સંભળાવાશે. Chrome, Edge અને Safari માં અવાજ ચાલે છે.",
+  "voiceUnavailable.insecure": "અવાજ માટે સુરક્ષિત (https) કનેક્શન જોઈએ. તમારો સંદેશ લખો - જવાબ હજુ પણ બોલીને સંભળાવાશે.",
+
+  "permission.onboarding.title": "તમારા અવાજથી વાત કરો",
+  "permission.onboarding.description": "આસિસ્ટન્ટ તમારો ઑર્ડર સાંભળવા માઇક્રોફોનનો ઉપયોગ કરે છે. આસિસ્ટન્ટ ચાલુ હોય ત્યારે જ તે સાંભળે છે.",
+  "permission.onboarding.prompt": "હવે તમારું બ્રાઉઝર પરવાનગી માંગશે - Allow પસંદ કરો.",
+  "permission.allow": "માઇક્રોફોનની પરવાનગી આપો",
+  "permission.notNow": "હમણાં નહીં",
+  "permission.reload": "પેજ ફરી લોડ કરો",
+  "permission.denied.title": "માઇક્રોફોનની પરવાનગી બંધ છે",
+  "permission.denied.description": "આ સાઇટ માટે માઇક્રોફોનની પરવાનગી મળે નહીં ત્યાં સુધી આસિસ્ટન્ટ તમને સાંભળી શકતું નથી.",
+  "permission.denied.chrome": "ઍડ્રેસ બારની ડાબી બાજુના સાઇટ આઇકન પર ક્લિક કરો, Microphone ચાલુ કરો, પછી પેજ ફરી લોડ કરો.",
+  "permission.denied.edge": "ઍડ્રેસ બારની ડાબી બાજુના તાળાના આઇકન પર ક્લિક કરો, આ સાઇટની Permissions ખોલો, Microphone ને Allow કરો, પછી પેજ ફરી લોડ કરો.",
+  "permission.denied.firefox": "ઍડ્રેસ બારમાં કાપેલા માઇક્રોફોન આઇકન પર ક્લિક કરો, રોકેલી પરવાનગી દૂર કરો, પછી પેજ ફરી લોડ કરો.",
+  "permission.denied.safari": "Safari > Settings for This Website ખોલો (iPhone પર: Settings > Apps > Safari > Microphone), Microphone ને Allow કરો, પછી પેજ ફરી લોડ કરો.",
+  "permission.denied.other": "તમારા બ્રાઉઝરની સાઇટ સેટિંગ્સ ખોલો, આ પેજ માટે માઇક્રોફોનની પરવાનગી આપો, પછી પેજ ફરી લોડ કરો.",
+
+  "error.retry": "ફરી પ્રયાસ કરો",
+  "error.micPermission.title": "માઇક્રોફોન બંધ છે",
+  "error.micPermission.description": "આસિસ્ટન્ટ સાથે વાત કરવા બ્રાઉઝરની સાઇટ સેટિંગ્સમાં માઇક્રોફોનની પરવાનગી આપો.",
+  "error.micUnavailable.title": "માઇક્રોફોન મળ્યો નહીં",
+  "error.micUnavailable.description": "તપાસો કે માઇક્રોફોન જોડાયેલો છે અને બીજી ઍપ તેનો ઉપયોગ નથી કરતી.",
+  "error.noSpeech.title": "સંભળાયું નહીં",
+  "error.noSpeech.description": "બટન દબાવી રાખો અને થોડું મોટેથી અથવા માઇક્રોફોનની નજીક બોલો.",
+  "error.speechNetwork.title": "અવાજ સેવા સુધી પહોંચી શક્યા નહીં",
+  "error.speechNetwork.description": "અવાજ ઓળખવા માટે ઇન્ટરનેટ જોઈએ. તમારું નેટવર્ક તપાસો.",
+  "error.speechLanguage.title": "ભાષા સમર્થિત નથી",
+  "error.speechLanguage.description": "આ બ્રાઉઝર પસંદ કરેલી ભાષા ઓળખી શકતું નથી. બીજી ભાષા પસંદ કરો.",
+  "error.speechFailed.title": "અવાજ ઓળખવાનું અટકી ગયું",
+  "error.speechFailed.description": "સાંભળતી વખતે કંઈક ખોટું થયું. ફરી પ્રયાસ કરવા માઇક દબાવો.",
+  "error.backendOffline.title": "દુકાન સાથે સંપર્ક થઈ શક્યો નહીં",
+  "error.backendOffline.description": "તમારું ઇન્ટરનેટ કનેક્શન તપાસો અને ફરી પ્રયાસ કરો.",
+  "error.backendTimeout.title": "જવાબમાં બહુ વાર લાગે છે",
+  "error.backendTimeout.description": "આસિસ્ટન્ટે સમયસર જવાબ ન આપ્યો. ફરી પ્રયાસ કરો.",
+  "error.backendBusy.title": "આસિસ્ટન્ટ વ્યસ્ત છે",
+  "error.backendBusy.description": "એકસાથે ઘણા ગ્રાહકો છે. થોડી વારમાં ફરી પ્રયાસ કરો.",
+  "error.backendServer.title": "આસિસ્ટન્ટમાં સમસ્યા આવી",
+  "error.backendServer.description": "અમારી બાજુ ભૂલ થઈ (HTTP {status}). ફરી પ્રયાસ કરો.",
+  "error.backendRejected.title": "વિનંતી સ્વીકારાઈ નહીં",
+  "error.backendRejected.description": "આસિસ્ટન્ટ આ વિનંતી સંભાળી શક્યું નહીં (HTTP {status}).",
+  "error.backendInvalid.title": "જવાબ સમજાયો નહીં",
+  "error.backendInvalid.description": "આસિસ્ટન્ટે એવો જવાબ મોકલ્યો જે વગાડી શકાયો નહીં. ફરી પ્રયાસ કરો.",
+  "error.playbackBlocked.title": "જવાબ સાંભળવા ટૅપ કરો",
+  "error.playbackBlocked.description": "તમારા બ્રાઉઝરે પેજ પર ટૅપ કરો ત્યાં સુધી અવાજ રોક્યો છે.",
+  "error.playbackFailed.title": "જવાબ વગાડી શકાયો નહીં",
+  "error.playbackFailed.description": "ઑડિયો વગાડી શકાયો નહીં. ફરી પ્રયાસ કરો.",
+
+  "notFound.title": "404",
+  "notFound.message": "અરે! આ પેજ મળ્યું નહીં",
+  "notFound.home": "હોમ પર પાછા જાઓ",
+};
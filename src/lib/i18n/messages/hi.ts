@@ -0,0 +1,123 @@
+import type { Messages } from "@/lib/i18n/messages/en";
+
+export const hi: Messages = {
+  "app.title": "आनंद मिठाईवाला से बात करें 🍬",
+  "app.subtitle": "मीठी बातों के लिए आपका दोस्ताना वॉइस असिस्टेंट",
+
+  "status.speaking": "🔊 AI बोल रहा है - रोकने के लिए टैप करें",
+  "status.processing": "⏳ आपका अनुरोध समझ रहे हैं...",
+  "status.listening": "👂 सुन रहे हैं...",
+  "status.ready": "तैयार - बोलना शुरू करें",
+  "status.inactive": "वॉइस असिस्टेंट चालू करने के लिए टैप करें",
+  "status.holdToTalk": "बोलने के लिए माइक बटन या स्पेसबार दबाए रखें",
+  "status.releaseToSend": "👂 सुन रहे हैं... भेजने के लिए छोड़ें",
+  "status.sayWakePhrase": 'शुरू करने के लिए "{phrase}" कहें',
+  "status.wakeArmed": "👋 मैं सुन रहा हूँ - बोलिए",
+  "status.typeToChat": "नीचे अपना संदेश लिखें",
+  "status.micUnavailable": "🎤 माइक्रोफ़ोन उपलब्ध नहीं - फिर से कोशिश करने के लिए टैप करें",
+
+  "bubble.userSaid": 'आपने कहा: "{text}"',
+  "bubble.userSaying": '"{text}..."',
+  "bubble.ai": "AI: {text}",
+  "bubble.processing": "समझ रहे हैं...",
+  "bubble.speaking": "बोल रहे हैं...",
+
+  "history.title": "बातचीत",
+  "history.turnCount": { one: "{count} बार", other: "{count} बार" },
+  "history.clear": "मिटाएँ",
+  "history.thinking": "सोच रहे हैं...",
+  "history.failed": "जवाब नहीं मिला - कुछ गड़बड़ हुई",
+  "history.cancelled": "रद्द किया गया",
+  "history.spokenReply": "🔊 (बोला गया जवाब)",
+  "history.interrupted": "बीच में रोका गया",
+  "history.latencySeconds": "{seconds} से.",
+  "history.latencyMs": "{ms} मि.से.",
+  "history.orderTotal": "कुल ऑर्डर: {amount}",
+
+  "language.label": "बातचीत की भाषा",
+  "language.auto": "अपने-आप ({language})",
+
+  "mode.label": "सुनने का तरीका",
+  "mode.continuous": "हमेशा सुनें",
+  "mode.pushToTalk": "दबाकर बोलें",
+  "mode.wakeWord": "वेक शब्द",
+
+  "environment.label": "बैकएंड: {url}",
+  "debug.open": "डीबग",
+  "debug.title": "वॉइस पाइपलाइन",
+  "debug.description": "मौजूदा स्थिति, बैकएंड का पिछला जवाब और हाल की घटनाएँ। बग रिपोर्ट के साथ डाउनलोड किए गए लॉग जोड़ें।",
+  "debug.state": "स्थिति",
+  "debug.lastReply": "बैकएंड का पिछला जवाब",
+  "debug.headers": { one: "{count} रिस्पॉन्स हेडर", other: "{count} रिस्पॉन्स हेडर" },
+  "debug.noReply": "अभी तक कोई जवाब नहीं मिला।",
+  "debug.events": "घटनाएँ, नई पहले",
+  "debug.noEvents": "अभी तक कुछ लॉग नहीं हुआ।",
+  "debug.clearLogs": "मिटाएँ",
+  "debug.downloadLogs": "लॉग डाउनलोड करें",
+  "debug.latency": "हर बार की देरी",
+
+  "latency.p50": "माध्यिका (p50)",
+  "latency.p95": "p95",
+  "latency.requestSent": "भेजा",
+  "latency.firstByte": "पहला बाइट",
+  "latency.fullBody": "पूरा जवाब",
+  "latency.playbackStart": "बोलना शुरू",
+  "latency.playbackEnd": "पूरा",
+  "latency.turns": { one: "ग्राहक के बोलना बंद करने के बाद का समय, पिछली {count} बार में", other: "ग्राहक के बोलना बंद करने के बाद का समय, पिछली {count} बार में" },
+  "latency.empty": "अभी तक कोई बातचीत पूरी नहीं हुई।",
+
+  "typed.placeholder": "अपना संदेश लिखें...",
+  "typed.send": "भेजें",
+
+  "voiceUnavailable.title": "आवाज़ उपलब्ध नहीं है",
+  "voiceUnavailable.unsupported": "यह ब्राउज़र आवाज़ नहीं पहचान सकता। अपना संदेश लिखें - जवाब फिर भी बोलकर सुनाए जाएँगे। Chrome, Edge और Safari में आवाज़ काम करती है।",
+  "voiceUnavailable.insecure": "आवाज़ के लिए सुरक्षित (https) कनेक्शन चाहिए। अपना संदेश लिखें - जवाब फिर भी बोलकर सुनाए जाएँगे।",
+
+  "permission.onboarding.title": "अपनी आवाज़ से बात करें",
+  "permission.onboarding.description": "असिस्टेंट आपका ऑर्डर सुनने के लिए माइक्रोफ़ोन इस्तेमाल करता है। यह सिर्फ़ तभी सुनता है जब असिस्टेंट चालू हो।",
+  "permission.onboarding.prompt": "अब आपका ब्राउज़र अनुमति माँगेगा - Allow चुनें।",
+  "permission.allow": "माइक्रोफ़ोन की अनुमति दें",
+  "permission.notNow": "अभी नहीं",
+  "permission.reload": "पेज फिर से लोड करें",
+  "permission.denied.title": "माइक्रोफ़ोन की अनुमति बंद है",
+  "permission.denied.description": "जब तक इस साइट के लिए माइक्रोफ़ोन की अनुमति नहीं मिलती, असिस्टेंट आपको नहीं सुन सकता।",
+  "permission.denied.chrome": "एड्रेस बार के बाईं ओर साइट आइकन पर क्लिक करें, Microphone चालू करें, फिर पेज रीलोड करें।",
+  "permission.denied.edge": "एड्रेस बार के बाईं ओर ताले के आइकन पर क्लिक करें, इस साइट की Permissions खोलें, Microphone को Allow करें, फिर पेज रीलोड करें।",
+  "permission.denied.firefox": "एड्रेस बार में कटे हुए माइक्रोफ़ोन आइकन पर क्लिक करें, रोकी गई अनुमति हटाएँ, फिर पेज रीलोड करें।",
+  "permission.denied.safari": "Safari > Settings for This Website खोलें (iPhone पर: Settings > Apps > Safari > Microphone), Microphone को Allow करें, फिर पेज रीलोड करें।",
+  "permission.denied.other": "अपने ब्राउज़र की साइट सेटिंग खोलें, इस पेज के लिए माइक्रोफ़ोन की अनुमति दें, फिर पेज रीलोड करें।",
+
+  "error.retry": "फिर से कोशिश करें",
+  "error.micPermission.title": "माइक्रोफ़ोन बंद है",
+  "error.micPermission.description": "असिस्टेंट से बात करने के लिए ब्राउज़र की साइट सेटिंग में माइक्रोफ़ोन की अनुमति दें।",
+  "error.micUnavailable.title": "माइक्रोफ़ोन नहीं मिला",
+  "error.micUnavailable.description": "जाँचें कि माइक्रोफ़ोन जुड़ा है और किसी दूसरे ऐप में इस्तेमाल नहीं हो रहा।",
+  "error.noSpeech.title": "सुनाई नहीं दिया",
+  "error.noSpeech.description": "बटन दबाए रखें और थोड़ा ज़ोर से या माइक्रोफ़ोन के पास बोलें।",
+  "error.speechNetwork.title": "आवाज़ सेवा तक नहीं पहुँच सके",
+  "error.speechNetwork.description": "आवाज़ पहचानने के लिए इंटरनेट चाहिए। अपना नेटवर्क जाँचें।",
+  "error.speechLanguage.title": "भाषा समर्थित नहीं",
+  "error.speechLanguage.description": "यह ब्राउज़र चुनी गई भाषा नहीं पहचान सकता। कोई दूसरी भाषा चुनें।",
+  "error.speechFailed.title": "आवाज़ पहचानना रुक गया",
+  "error.speechFailed.description": "सुनते समय कुछ गड़बड़ हुई। फिर से कोशिश करने के लिए माइक दबाएँ।",
+  "error.backendOffline.title": "दुकान से संपर्क नहीं हो सका",
+  "error.backendOffline.description": "अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।",
+  "error.backendTimeout.title": "जवाब में बहुत देर हो रही है",
+  "error.backendTimeout.description": "असिस्टेंट ने समय पर जवाब नहीं दिया। फिर से कोशिश करें।",
+  "error.backendBusy.title": "असिस्टेंट व्यस्त है",
+  "error.backendBusy.description": "एक साथ बहुत सारे ग्राहक हैं। थोड़ी देर में फिर कोशिश करें।",
+  "error.backendServer.title": "असिस्टेंट में समस्या आई",
+  "error.backendServer.description": "हमारी तरफ़ गड़बड़ हुई (HTTP {status})। फिर से कोशिश करें।",
+  "error.backendRejected.title": "अनुरोध स्वीकार नहीं हुआ",
+  "error.backendRejected.description": "असिस्टेंट यह अनुरोध नहीं संभाल सका (HTTP {status})।",
+  "error.backendInvalid.title": "जवाब समझ नहीं आया",
+  "error.backendInvalid.description": "असिस्टेंट ने ऐसा जवाब भेजा जिसे चलाया नहीं जा सका। फिर से कोशिश करें।",
+  "error.playbackBlocked.title": "जवाब सुनने के लिए टैप करें",
+  "error.playbackBlocked.description": "आपके ब्राउज़र ने पेज पर टैप करने तक आवाज़ रोक दी है।",
+  "error.playbackFailed.title": "जवाब नहीं चल सका",
+  "error.playbackFailed.description": "ऑडियो नहीं चल सका। फिर से कोशिश करें।",
+
+  "notFound.title": "404",
+  "notFound.message": "ओह! यह पेज नहीं मिला",
+  "notFound.home": "होम पर लौटें",
+};
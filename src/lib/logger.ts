@@ -0,0 +1,132 @@
+// Leveled, namespaced client-side logging. Every entry lands in an in-memory ring buffer so a
+// bug report can carry the recent history (see downloadLogs); only entries at or above the
+// current level reach the console. Production builds print warnings and errors only; add
+// ?debug=1 to the URL (or ?debug=info etc.) to see more on a customer's device.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data?: unknown[];
+}
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+export const LOG_BUFFER_SIZE = 500;
+
+const buffer: LogEntry[] = [];
+let next = 0;
+const listeners = new Set<() => void>();
+
+/** Whether the page was opened with ?debug, which also reveals the log download */
+export function isDebugRequested(search: string = window.location.search) {
+  return new URLSearchParams(search).has("debug");
+}
+
+export function resolveLogLevel(search: string = window.location.search): LogLevel {
+  const requested = new URLSearchParams(search).get("debug")?.toLowerCase();
+  if (requested === "1" || requested === "true") return "debug";
+  if (LOG_LEVELS.includes(requested as LogLevel)) return requested as LogLevel;
+  return import.meta.env.PROD ? "warn" : "debug";
+}
+
+let consoleLevel: LogLevel = resolveLogLevel();
+
+export function getLogLevel() {
+  return consoleLevel;
+}
+
+export function setLogLevel(level: LogLevel) {
+  consoleLevel = level;
+}
+
+function record(entry: LogEntry) {
+  if (buffer.length < LOG_BUFFER_SIZE) {
+    buffer.push(entry);
+  } else {
+    buffer[next] = entry;
+  }
+  next = (next + 1) % LOG_BUFFER_SIZE;
+  listeners.forEach((listener) => listener());
+}
+
+/** Buffered entries, oldest first */
+export function getLogEntries(): LogEntry[] {
+  return buffer.length < LOG_BUFFER_SIZE ? [...buffer] : [...buffer.slice(next), ...buffer.slice(0, next)];
+}
+
+export function clearLogEntries() {
+  buffer.length = 0;
+  next = 0;
+  listeners.forEach((listener) => listener());
+}
+
+/** Calls `listener` whenever the buffer changes; returns the unsubscribe function */
+export function subscribeToLogs(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function createLogger(namespace: string): Logger {
+  const log =
+    (level: LogLevel) =>
+    (message: string, ...data: unknown[]) => {
+      record({
+        time: new Date().toISOString(),
+        level,
+        namespace,
+        message,
+        ...(data.length > 0 && { data }),
+      });
+      if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(consoleLevel)) return;
+      console[level](`[${namespace}] ${message}`, ...data);
+    };
+
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+// Errors, blobs and DOM objects don't survive JSON.stringify on their own
+function serializable() {
+  const seen = new WeakSet<object>();
+  return (_key: string, value: unknown) => {
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+    if (value instanceof Blob) return { blob: value.type || "unknown", size: value.size };
+    if (typeof value === "object" && value !== null) {
+      if (seen.has(value)) return "[circular]";
+      seen.add(value);
+    }
+    return value;
+  };
+}
+
+export function serializeLogs(entries: LogEntry[] = getLogEntries()) {
+  const report = {
+    exportedAt: new Date().toISOString(),
+    url: window.location.href,
+    userAgent: navigator.userAgent,
+    entries,
+  };
+  return JSON.stringify(report, serializable(), 2);
+}
+
+/** Saves the buffer as a JSON file to attach to a bug report */
+export function downloadLogs() {
+  const blob = new Blob([serializeLogs()], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `voice-logs-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,120 @@
+// Playback contract for the assistant's spoken replies. Implementations own any blob URLs or
+// audio nodes they create and release them when playback ends, fails or is stopped.
+// Stream sources start playing on the first chunk where the sink supports the format.
+
+export type AudioSource = Blob | ReadableStream<Uint8Array>;
+
+export interface AudioProgress {
+  /** Seconds played so far. */
+  currentTime: number;
+  /** Total length in seconds, NaN while unknown. */
+  duration: number;
+}
+
+export interface AudioSinkHandlers {
+  onProgress?: (progress: AudioProgress) => void;
+  onEnded?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface AudioSink {
+  readonly playing: boolean;
+  setHandlers(handlers: AudioSinkHandlers): void;
+  /**
+   * Stops anything already playing, then starts `source`, whose format is given by `mimeType`
+   * (defaults to the blob type, or MP3 for streams). Resolves once audio is audible and
+   * rejects if playback could not start (e.g. autoplay blocked or undecodable data); in that
+   * case no handler is called. Events after a later stop() or play() are never delivered.
+   */
+  play(source: AudioSource, mimeType?: string): Promise<void>;
+  /** Silently stops playback without firing onEnded. */
+  stop(): void;
+  /** Output volume from 0 to 1, kept for later plays; used to duck the reply under the customer's voice. */
+  setVolume(volume: number): void;
+  /**
+   * Fills `samples` with the latest output waveform (-1..1) for visualisation. Returns false,
+   * leaving `samples` untouched, when nothing is playing or the sink cannot analyse its output.
+   */
+  getWaveform(samples: Float32Array): boolean;
+  /** Releases everything held by the sink; it must not be used afterwards. */
+  dispose(): void;
+}
+
+export type AudioSinkFactory = () => AudioSink;
+
+export const DEFAULT_AUDIO_TYPE = "audio/mpeg";
+/** Analyser size for output waveforms; callers size their sample buffers to match. */
+export const WAVEFORM_SIZE = 1024;
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  littleEndian: boolean;
+}
+
+export function getSourceType(source: AudioSource, mimeType?: string): string {
+  if (mimeType) return mimeType;
+  if (source instanceof Blob && source.type) return source.type;
+  return DEFAULT_AUDIO_TYPE;
+}
+
+/**
+ * Raw signed 16-bit PCM: `audio/pcm;rate=24000` is little-endian as most TTS engines emit it,
+ * `audio/L16;rate=16000;channels=1` is big-endian per RFC 2586. Returns null for any other type.
+ */
+export function parsePcmFormat(mimeType: string): PcmFormat | null {
+  const [type, ...params] = mimeType.toLowerCase().split(";").map((part) => part.trim());
+  if (type !== "audio/pcm" && type !== "audio/l16") return null;
+
+  const values = Object.fromEntries(params.map((param) => param.split("=") as [string, string]));
+  return {
+    sampleRate: Number(values.rate) || 24000,
+    channels: Number(values.channels) || 1,
+    littleEndian: type === "audio/pcm",
+  };
+}
+
+export async function readAudioSource(source: AudioSource, type = DEFAULT_AUDIO_TYPE): Promise<Blob> {
+  if (source instanceof Blob) return source;
+  return new Response(source, { headers: { "Content-Type": type } }).blob();
+}
+
+/** Lets go of audio that will not be played, so a streamed reply stops downloading. */
+export function discardAudioSource(source: AudioSource) {
+  if (!(source instanceof Blob)) source.cancel().catch(() => {});
+}
+
+export interface KeptAudioSource {
+  /** Play this instead of the original, which a stream copy has taken over. */
+  source: AudioSource;
+  /** The whole reply once it has arrived; null if it failed or was discarded first. */
+  copy: Promise<Blob | null>;
+  discard(): void;
+}
+
+/** Keeps a copy of `source` that can be played again after the original has been consumed. */
+export function keepAudioSource(source: AudioSource, type = DEFAULT_AUDIO_TYPE): KeptAudioSource {
+  if (source instanceof Blob) return { source, copy: Promise.resolve(source), discard() {} };
+
+  const [played, kept] = source.tee();
+  const reader = kept.getReader();
+  let discarded = false;
+  const read = async () => {
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (discarded) return null;
+      if (done) return new Blob(chunks, { type });
+      chunks.push(value);
+    }
+  };
+
+  return {
+    source: played,
+    copy: read().catch(() => null),
+    discard() {
+      discarded = true;
+      reader.cancel().catch(() => {});
+    },
+  };
+}
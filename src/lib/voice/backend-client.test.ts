@@ -0,0 +1,293 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createVoiceBackendClient,
+  isAudioContentType,
+  REPLY_TEXT_HEADER,
+  type VoiceTurnRequest,
+} from "@/lib/voice/backend-client";
+
+const request: VoiceTurnRequest = { text: "two jalebi", sessionId: "s1", turnIndex: 0, locale: "en-IN", context: [] };
+
+const audioResponse = () => new Response(new Blob(["mp3"]), { status: 200, headers: { "Content-Type": "audio/mpeg" } });
+
+const url = "https://example.test/voice";
+
+/** Sends one turn to a backend that answers with `responses` in order */
+function sendWith(...responses: Response[]) {
+  const fetch = vi.fn<typeof globalThis.fetch>();
+  for (const response of responses) fetch.mockResolvedValueOnce(response);
+  return { fetch, sending: createVoiceBackendClient({ url, retries: 0, fetch }).sendTurn(request) };
+}
+
+const text = (audio: ReadableStream<Uint8Array>) => new Response(audio).text();
+
+/** A fetch that never answers, like a webhook still working on the turn, until it is aborted */
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(init.signal?.reason), { once: true });
+  });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createVoiceBackendClient retries", () => {
+  it("does not send a timed-out turn again", async () => {
+    const fetch = vi.fn(hangingFetch);
+    const client = createVoiceBackendClient({ url: "https://example.test/voice", timeoutMs: 1000, fetch });
+
+    const sending = client.sendTurn(request);
+    const failed = expect(sending).rejects.toMatchObject({ kind: "timeout", retryable: false });
+    await vi.advanceTimersByTimeAsync(10000);
+    await failed;
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a server error with backoff", async () => {
+    const fetch = vi
+      .fn<typeof globalThis.fetch>()
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockResolvedValueOnce(audioResponse());
+    const client = createVoiceBackendClient({ url: "https://example.test/voice", backoffMs: 500, fetch });
+
+    const sending = client.sendTurn(request);
+    await vi.advanceTimersByTimeAsync(500);
+    const reply = await sending;
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(reply.meta.attempts).toBe(2);
+  });
+});
+
+describe("isAudioContentType", () => {
+  it.each(["audio/mpeg", "Audio/WAV; codecs=1", "audio/pcm;rate=24000", "application/mpeg"])("accepts %s", (type) => {
+    expect(isAudioContentType(type)).toBe(true);
+  });
+
+  it.each(["multipart/mixed; boundary=audio-reply", "application/json; profile=audio", "text/plain", null])(
+    "rejects %s",
+    (type) => {
+      expect(isAudioContentType(type)).toBe(false);
+    },
+  );
+});
+
+describe("createVoiceBackendClient replies", () => {
+  it("streams bare audio with the percent-encoded reply text header", async () => {
+    const { sending } = sendWith(
+      new Response("mp3", {
+        headers: { "Content-Type": "audio/mpeg", [REPLY_TEXT_HEADER]: encodeURIComponent("दो जलेबी, ₹40") },
+      }),
+    );
+    const reply = await sending;
+
+    expect(reply.audio).toBeInstanceOf(ReadableStream);
+    expect(await text(reply.audio as ReadableStream<Uint8Array>)).toBe("mp3");
+    expect(reply).toMatchObject({ mimeType: "audio/mpeg", text: "दो जलेबी, ₹40" });
+  });
+
+  it("keeps a reply text header that is not percent-encoded", async () => {
+    const { sending } = sendWith(
+      new Response("mp3", { headers: { "Content-Type": "audio/mpeg", [REPLY_TEXT_HEADER]: "100% fresh" } }),
+    );
+
+    expect((await sending).text).toBe("100% fresh");
+  });
+
+  it("reads a multipart reply even when its boundary mentions audio", async () => {
+    const boundary = "audio-mpeg-reply";
+    const body = [
+      `--${boundary}\r\nContent-Type: application/json\r\n\r\n`,
+      JSON.stringify({ text: "Two jalebis", metadata: { orderTotal: 40 } }),
+      `\r\n--${boundary}\r\nContent-Type: audio/mpeg\r\n\r\nmp3\r\n--${boundary}--\r\n`,
+    ].join("");
+    const { sending } = sendWith(
+      new Response(body, { headers: { "Content-Type": `multipart/mixed; boundary=${boundary}` } }),
+    );
+    const reply = await sending;
+
+    expect(reply).toMatchObject({ text: "Two jalebis", metadata: { orderTotal: 40 }, mimeType: "audio/mpeg" });
+    expect(reply.audio).toMatchObject({ type: "audio/mpeg", size: 3 });
+  });
+
+  it("takes a plain-text part as the reply text", async () => {
+    const body = "--b\r\nContent-Type: text/plain\r\n\r\n Two jalebis \r\n--b\r\nContent-Type: audio/wav\r\n\r\nwav\r\n--b--";
+    const { sending } = sendWith(new Response(body, { headers: { "Content-Type": "multipart/mixed; boundary=b" } }));
+
+    expect(await sending).toMatchObject({ text: "Two jalebis", mimeType: "audio/wav" });
+  });
+
+  it("rejects a multipart reply without audio", async () => {
+    const body = "--b\r\nContent-Type: text/plain\r\n\r\nTwo jalebis\r\n--b--";
+    const { sending } = sendWith(new Response(body, { headers: { "Content-Type": "multipart/mixed; boundary=b" } }));
+
+    await expect(sending).rejects.toMatchObject({ kind: "invalid-response", retryable: false });
+  });
+
+  it("decodes base64 audio from a JSON reply", async () => {
+    const { sending } = sendWith(
+      Response.json({ audio: `data:audio/wav;base64,${btoa("wav")}`, mimeType: "audio/wav", text: "Two jalebis" }),
+    );
+    const reply = await sending;
+
+    expect(reply).toMatchObject({ mimeType: "audio/wav", text: "Two jalebis" });
+    expect(reply.audio).toMatchObject({ type: "audio/wav", size: 3 });
+  });
+
+  it("downloads the audio a JSON reply links to", async () => {
+    const { fetch, sending } = sendWith(
+      Response.json({ audioUrl: "https://cdn.example.test/reply.mp3", text: "Two jalebis" }),
+      // Node's Response makes its own Blobs, which are not jsdom's, so hand over one the client recognizes
+      Object.assign(new Response("mp3"), { blob: async () => new Blob(["mp3"], { type: "audio/mpeg" }) }),
+    );
+    const reply = await sending;
+
+    expect(fetch).toHaveBeenLastCalledWith("https://cdn.example.test/reply.mp3", expect.anything());
+    expect(reply).toMatchObject({ mimeType: "audio/mpeg", text: "Two jalebis" });
+    expect(reply.audio).toMatchObject({ size: 3 });
+  });
+
+  it("reports a workflow error from a JSON reply", async () => {
+    const { sending } = sendWith(Response.json({ error: "Menu unavailable" }));
+
+    await expect(sending).rejects.toMatchObject({
+      kind: "invalid-response",
+      message: "Backend reported an error: Menu unavailable",
+    });
+  });
+});
+
+describe("createVoiceBackendClient failures", () => {
+  /** A client that would retry, so tests can tell a failure that is not retried */
+  function clientWith(fetch: typeof globalThis.fetch) {
+    return createVoiceBackendClient({ url, retries: 2, backoffMs: 10, fetch });
+  }
+
+  it.each([400, 404, 422])("does not retry a %i", async (status) => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response("no", { status }));
+
+    await expect(clientWith(fetch).sendTurn(request)).rejects.toMatchObject({ kind: "http", status, retryable: false });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects JSON that is not a reply, without retrying", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => Response.json({ message: "ok" }));
+
+    await expect(clientWith(fetch).sendTurn(request)).rejects.toMatchObject({
+      kind: "invalid-response",
+      retryable: false,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry a workflow error", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => Response.json({ error: "Menu unavailable" }));
+
+    await expect(clientWith(fetch).sendTurn(request)).rejects.toMatchObject({ kind: "invalid-response" });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects an empty reply", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response(null, { status: 200 }));
+
+    await expect(clientWith(fetch).sendTurn(request)).rejects.toMatchObject({
+      kind: "invalid-response",
+      message: "Backend returned an empty reply",
+    });
+  });
+
+  it("gives up without retrying when the turn is aborted", async () => {
+    const fetch = vi.fn(hangingFetch);
+    const controller = new AbortController();
+
+    const sending = clientWith(fetch).sendTurn(request, { signal: controller.signal });
+    controller.abort();
+
+    await expect(sending).rejects.toMatchObject({ kind: "aborted", retryable: false });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting to retry when the turn is aborted", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => new Response("busy", { status: 503 }));
+    const controller = new AbortController();
+
+    const sending = clientWith(fetch).sendTurn(request, { signal: controller.signal });
+    const failed = expect(sending).rejects.toMatchObject({ kind: "aborted" });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await failed;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("never sends a turn that was aborted before it started", async () => {
+    const fetch = vi.fn(hangingFetch);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(clientWith(fetch).sendTurn(request, { signal: controller.signal })).rejects.toMatchObject({
+      kind: "aborted",
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("createVoiceBackendClient streamed replies", () => {
+  /** Audio that sends its first chunk and then nothing more */
+  function stallingAudio() {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+      },
+    });
+    return new Response(body, { headers: { "Content-Type": "audio/mpeg" } });
+  }
+
+  it("errors a body that stops arriving", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () => stallingAudio());
+    const onBodyReceived = vi.fn();
+    const client = createVoiceBackendClient({ url, stallTimeoutMs: 2000, fetch });
+
+    const reply = await client.sendTurn(request, { onBodyReceived });
+    const reader = (reply.audio as ReadableStream<Uint8Array>).getReader();
+    expect(await reader.read()).toMatchObject({ done: false });
+
+    const next = expect(reader.read()).rejects.toMatchObject({ kind: "timeout" });
+    await vi.advanceTimersByTimeAsync(2000);
+    await next;
+    expect(onBodyReceived).not.toHaveBeenCalled();
+  });
+
+  it("gives a slow but steady body all the time it needs", async () => {
+    let push: (chunk: Uint8Array | null) => void = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        push = (chunk) => (chunk ? controller.enqueue(chunk) : controller.close());
+      },
+    });
+    const fetch = vi.fn<typeof globalThis.fetch>(
+      async () => new Response(body, { headers: { "Content-Type": "audio/mpeg" } }),
+    );
+    const onBodyReceived = vi.fn();
+    const client = createVoiceBackendClient({ url, stallTimeoutMs: 2000, fetch });
+
+    const reply = await client.sendTurn(request, { onBodyReceived });
+    const reading = text(reply.audio as ReadableStream<Uint8Array>);
+    for (const chunk of ["m", "p", "3"]) {
+      await vi.advanceTimersByTimeAsync(1500);
+      push(new TextEncoder().encode(chunk));
+    }
+    push(null);
+
+    expect(await reading).toBe("mp3");
+    expect(onBodyReceived).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,395 @@
+import { z } from "zod";
+
+import { createLogger } from "@/lib/logger";
+import { DEFAULT_AUDIO_TYPE, type AudioSource } from "@/lib/voice/audio-sink";
+import type { ContextMessage } from "@/lib/voice/conversation-session";
+import { getBoundary, parseMultipart } from "@/lib/voice/multipart";
+
+// Client for the n8n voice-reply webhook. A turn is a JSON POST; the reply is one of
+//   - binary audio, with the reply text optionally in a percent-encoded X-Reply-Text header
+//   - JSON with base64 `audio` or an `audioUrl`, plus `text` and `metadata`
+//   - multipart/mixed with a JSON or plain-text part and an audio part
+//   - JSON `{ error }` when the workflow failed
+// Binary audio is handed over as the response stream so playback can start on the first bytes.
+
+const log = createLogger("voice:backend");
+
+export interface VoiceTurnRequest {
+  text: string;
+  sessionId: string;
+  /** 0 for the first turn of a session. */
+  turnIndex: number;
+  locale: string;
+  /** Earlier exchanges of the same session, oldest first. */
+  context: ContextMessage[];
+}
+
+export interface VoiceReplyMeta {
+  status: number;
+  contentType: string | null;
+  headers: Record<string, string>;
+  /** Time until response headers arrived for the successful attempt. */
+  fetchDurationMs: number;
+  attempts: number;
+}
+
+export interface VoiceReply {
+  /** A stream while the reply is still arriving, a Blob when it was fully downloaded. */
+  audio: AudioSource;
+  mimeType: string;
+  /** What the assistant says, when the backend provides it. */
+  text?: string;
+  metadata?: Record<string, unknown>;
+  meta: VoiceReplyMeta;
+}
+
+export type VoiceBackendErrorKind = "network" | "timeout" | "http" | "invalid-response" | "aborted";
+
+export class VoiceBackendError extends Error {
+  readonly kind: VoiceBackendErrorKind;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: VoiceBackendErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "VoiceBackendError";
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+    // A timed-out turn may still be processed, and sending it again could place an order twice
+    this.retryable =
+      kind === "network" || (kind === "http" && (options.status === 429 || (options.status ?? 0) >= 500));
+  }
+}
+
+const replyDetailsSchema = z.object({
+  text: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+const audioUrlReplySchema = replyDetailsSchema.extend({
+  audioUrl: z.string().url(),
+});
+
+const base64ReplySchema = replyDetailsSchema.extend({
+  audio: z.string().min(1),
+  mimeType: z.string().optional(),
+});
+
+const errorReplySchema = z.object({
+  error: z.string(),
+});
+
+export type ReplyDetails = z.infer<typeof replyDetailsSchema>;
+
+export interface VoiceBackendClientOptions {
+  url: string;
+  /** Receives a copy of every request without being awaited, e.g. the n8n test webhook. */
+  mirrorUrl?: string;
+  /** Until response headers arrive. */
+  timeoutMs?: number;
+  /** Longest wait for the next chunk of a streamed reply before it counts as stalled. */
+  stallTimeoutMs?: number;
+  /** Additional attempts after the first one for retryable failures. */
+  retries?: number;
+  backoffMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface SendTurnOptions {
+  signal?: AbortSignal;
+  /** Response headers arrived for the attempt that succeeded. */
+  onFirstByte?: () => void;
+  /** The whole reply is in; for streamed audio that is when the stream ends, after sendTurn resolves. */
+  onBodyReceived?: () => void;
+}
+
+export interface VoiceBackendClient {
+  sendTurn(request: VoiceTurnRequest, options?: SendTurnOptions): Promise<VoiceReply>;
+}
+
+const DEFAULT_TIMEOUT = 20000;
+const DEFAULT_STALL_TIMEOUT = 10000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF = 500;
+
+export const REPLY_TEXT_HEADER = "X-Reply-Text";
+
+/** The media type of a Content-Type header without its parameters, e.g. "audio/mpeg". */
+export function getMediaType(contentType: string | null): string {
+  return contentType?.split(";")[0].trim().toLowerCase() ?? "";
+}
+
+// Parameters such as a multipart boundary are left out, as they can contain anything
+export function isAudioContentType(contentType: string | null): boolean {
+  const type = getMediaType(contentType);
+  return type.startsWith("audio/") || type.endsWith("/mpeg") || type.endsWith("/mp3");
+}
+
+export function isJsonContentType(contentType: string | null): boolean {
+  const type = getMediaType(contentType);
+  return type === "application/json" || type.endsWith("+json");
+}
+
+function decodeBase64(value: string, type: string): Blob {
+  const binary = atob(value.replace(/^data:[^,]*,/, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+// Headers are ASCII-only, so non-English replies arrive percent-encoded
+function readReplyTextHeader(headers: Headers): string | undefined {
+  const value = headers.get(REPLY_TEXT_HEADER);
+  if (!value) return undefined;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function abortError(signal: AbortSignal) {
+  return new VoiceBackendError("aborted", "Request was cancelled", { cause: signal.reason });
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Passes a streamed body through, calling `onComplete` once it was read to the end and `onSettled`
+ * once it is over for any reason: read, failed, stalled or cancelled by its reader. A body that
+ * sends nothing for `stallMs` while it is being read errors with a timeout, so a sink waiting on
+ * it fails instead of holding the turn forever.
+ */
+function followBody(
+  stream: ReadableStream<Uint8Array>,
+  { stallMs, onComplete, onSettled }: { stallMs: number; onComplete?: () => void; onSettled: () => void },
+) {
+  const reader = stream.getReader();
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    onSettled();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stalled = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new VoiceBackendError("timeout", `Reply stream stalled for ${stallMs}ms`)),
+          stallMs,
+        );
+      });
+      try {
+        const { done, value } = await Promise.race([reader.read(), stalled]);
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        settle();
+        onComplete?.();
+        controller.close();
+      } catch (error) {
+        settle();
+        // Also stops the download of a body that stalled
+        reader.cancel(error).catch(() => {});
+        controller.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      settle();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+export function createVoiceBackendClient({
+  url,
+  mirrorUrl,
+  timeoutMs = DEFAULT_TIMEOUT,
+  stallTimeoutMs = DEFAULT_STALL_TIMEOUT,
+  retries = DEFAULT_RETRIES,
+  backoffMs = DEFAULT_BACKOFF,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+}: VoiceBackendClientOptions): VoiceBackendClient {
+  const post = (target: string, request: VoiceTurnRequest, signal?: AbortSignal) =>
+    fetchImpl(target, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+  const parseJsonReply = async (body: unknown, signal: AbortSignal): Promise<Omit<VoiceReply, "meta">> => {
+    const failure = errorReplySchema.safeParse(body);
+    if (failure.success) {
+      throw new VoiceBackendError("invalid-response", `Backend reported an error: ${failure.data.error}`);
+    }
+
+    const inline = base64ReplySchema.safeParse(body);
+    if (inline.success) {
+      const mimeType = inline.data.mimeType ?? DEFAULT_AUDIO_TYPE;
+      return { ...inline.data, audio: decodeBase64(inline.data.audio, mimeType), mimeType };
+    }
+
+    const linked = audioUrlReplySchema.safeParse(body);
+    if (!linked.success) {
+      throw new VoiceBackendError("invalid-response", `Unexpected JSON reply: ${linked.error.message}`);
+    }
+    const audioResponse = await fetchImpl(linked.data.audioUrl, { signal });
+    if (!audioResponse.ok) {
+      throw new VoiceBackendError("http", `Audio download failed: ${audioResponse.status}`, {
+        status: audioResponse.status,
+      });
+    }
+    const audio = await audioResponse.blob();
+    return { audio, mimeType: audio.type || DEFAULT_AUDIO_TYPE, text: linked.data.text, metadata: linked.data.metadata };
+  };
+
+  const parseMultipartReply = async (response: Response, boundary: string): Promise<Omit<VoiceReply, "meta">> => {
+    const parts = parseMultipart(new Uint8Array(await response.arrayBuffer()), boundary);
+    const details: ReplyDetails = {};
+    let audioPart: { audio: Blob; mimeType: string } | null = null;
+
+    for (const part of parts) {
+      const type = part.headers.get("content-type") ?? "text/plain";
+      if (isAudioContentType(type)) {
+        audioPart = { audio: new Blob([part.body], { type }), mimeType: type };
+      } else if (isJsonContentType(type)) {
+        try {
+          const parsed = replyDetailsSchema.safeParse(JSON.parse(new TextDecoder().decode(part.body)));
+          if (parsed.success) Object.assign(details, parsed.data);
+        } catch {
+          log.warn("Ignoring malformed JSON part in multipart reply");
+        }
+      } else if (type.startsWith("text/")) {
+        details.text = new TextDecoder().decode(part.body).trim();
+      }
+    }
+
+    if (!audioPart) throw new VoiceBackendError("invalid-response", "Multipart reply has no audio part");
+    return { ...details, ...audioPart };
+  };
+
+  const parseBody = async (
+    response: Response,
+    meta: VoiceReplyMeta,
+    signal: AbortSignal,
+  ): Promise<Omit<VoiceReply, "meta">> => {
+    const boundary = getMediaType(meta.contentType).startsWith("multipart/") ? getBoundary(meta.contentType) : null;
+    if (boundary) return parseMultipartReply(response, boundary);
+
+    if (isJsonContentType(meta.contentType)) {
+      return parseJsonReply(await response.json().catch(() => undefined), signal);
+    }
+
+    if (isAudioContentType(meta.contentType)) {
+      return { audio: response.body ?? (await response.blob()), mimeType: meta.contentType ?? DEFAULT_AUDIO_TYPE };
+    }
+
+    // n8n sometimes omits the content type on binary responses, so try the body as audio anyway
+    log.warn("Expected audio response but got", meta.contentType);
+    const audio = await response.blob();
+    if (audio.size === 0) {
+      throw new VoiceBackendError("invalid-response", "Backend returned an empty reply");
+    }
+    return { audio, mimeType: DEFAULT_AUDIO_TYPE };
+  };
+
+  const parseReply = async (response: Response, meta: VoiceReplyMeta, signal: AbortSignal): Promise<VoiceReply> => {
+    const reply = await parseBody(response, meta, signal);
+    return { ...reply, text: reply.text || readReplyTextHeader(response.headers), meta };
+  };
+
+  const attempt = async (
+    request: VoiceTurnRequest,
+    attempts: number,
+    { signal, onFirstByte, onBodyReceived }: SendTurnOptions,
+  ): Promise<VoiceReply> => {
+    // A listener added now would never fire, so the request would go out anyway
+    if (signal?.aborted) throw abortError(signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const unwire = () => signal?.removeEventListener("abort", onAbort);
+    let streaming = false;
+
+    try {
+      const startTime = Date.now();
+      const response = await post(url, request, controller.signal);
+      const meta: VoiceReplyMeta = {
+        status: response.status,
+        contentType: response.headers.get("content-type"),
+        headers: Object.fromEntries(response.headers.entries()),
+        fetchDurationMs: Date.now() - startTime,
+        attempts,
+      };
+      if (!response.ok) {
+        throw new VoiceBackendError("http", `Backend error: ${response.status}`, { status: response.status });
+      }
+      onFirstByte?.();
+      const reply = await parseReply(response, meta, controller.signal);
+      if (reply.audio instanceof Blob) {
+        onBodyReceived?.();
+        return reply;
+      }
+      // Aborting the turn must still stop a body that is downloading while it plays
+      streaming = true;
+      return {
+        ...reply,
+        audio: followBody(reply.audio, { stallMs: stallTimeoutMs, onComplete: onBodyReceived, onSettled: unwire }),
+      };
+    } catch (error) {
+      if (error instanceof VoiceBackendError) throw error;
+      if (signal?.aborted) throw abortError(signal);
+      if (timedOut) throw new VoiceBackendError("timeout", `No reply within ${timeoutMs}ms`, { cause: error });
+      throw new VoiceBackendError("network", "Could not reach the voice backend", { cause: error });
+    } finally {
+      clearTimeout(timer);
+      if (!streaming) unwire();
+    }
+  };
+
+  return {
+    async sendTurn(request, options = {}) {
+      const { signal } = options;
+      if (mirrorUrl && !signal?.aborted) post(mirrorUrl, request).catch(() => {});
+
+      for (let attempts = 1; ; attempts++) {
+        try {
+          return await attempt(request, attempts, options);
+        } catch (error) {
+          if (!(error instanceof VoiceBackendError) || !error.retryable || attempts > retries) throw error;
+          const delay = backoffMs * 2 ** (attempts - 1);
+          log.warn(`${error.message} - retrying in ${delay}ms`);
+          await wait(delay, signal);
+        }
+      }
+    },
+  };
+}
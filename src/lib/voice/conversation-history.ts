@@ -0,0 +1,65 @@
+import { createLogger } from "@/lib/logger";
+
+// Session-long record of what was said. Turns are stored in sessionStorage so a reload keeps
+// the history, while closing the tab clears it. Switching the assistant off by hand hands the
+// kiosk to the next customer, so useVoiceAssistant clears the history along with the session.
+
+const log = createLogger("voice:storage");
+
+export type HistoryTurnStatus = "pending" | "answered" | "failed" | "cancelled";
+
+export interface HistoryTurn {
+  /** Unique across reloads, unlike the conversation machine's turn ID. */
+  key: string;
+  /** The conversation session the turn was sent in. */
+  sessionId?: string;
+  userText: string;
+  askedAt: number;
+  replyText?: string;
+  /** Rupee amount from the reply's `metadata.orderTotal`, if the backend sent one. */
+  orderTotal?: number;
+  answeredAt?: number;
+  /** From the end of the user's utterance until the reply became audible. */
+  latencyMs?: number;
+  status: HistoryTurnStatus;
+  /** The user cut the spoken reply short. */
+  interrupted?: boolean;
+}
+
+export const HISTORY_STORAGE_KEY = "mithai-voice-history";
+const HISTORY_LIMIT = 100;
+
+export function loadHistory(storage: Storage = sessionStorage): HistoryTurn[] {
+  try {
+    const stored = JSON.parse(storage.getItem(HISTORY_STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(stored)) return [];
+    // A reload abandons whatever was still waiting for a reply
+    return stored.map((turn: HistoryTurn) => (turn.status === "pending" ? { ...turn, status: "cancelled" } : turn));
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(turns: HistoryTurn[], storage: Storage = sessionStorage) {
+  try {
+    if (turns.length === 0) storage.removeItem(HISTORY_STORAGE_KEY);
+    else storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(turns.slice(-HISTORY_LIMIT)));
+  } catch (error) {
+    log.warn("Could not persist conversation history", error);
+  }
+}
+
+export function appendTurn(turns: HistoryTurn[], turn: HistoryTurn): HistoryTurn[] {
+  return [...turns, turn].slice(-HISTORY_LIMIT);
+}
+
+export function updateTurn(turns: HistoryTurn[], key: string, changes: Partial<HistoryTurn>): HistoryTurn[] {
+  return turns.map((turn) => (turn.key === key ? { ...turn, ...changes } : turn));
+}
+
+export function interruptTurn(turns: HistoryTurn[], key: string): HistoryTurn[] {
+  return turns.map((turn) => {
+    if (turn.key !== key) return turn;
+    return turn.status === "pending" ? { ...turn, status: "cancelled" } : { ...turn, interrupted: true };
+  });
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  canStartMic,
+  initialConversationState,
+  isBargeIn,
+  isCurrentTurn,
+  transition,
+  type ConversationEvent,
+  type ConversationState,
+  type ConversationStatus,
+} from "@/lib/voice/conversation-machine";
+
+const TURN = 3;
+const STATUSES: ConversationStatus[] = ["idle", "listening", "sending", "speaking", "interrupted"];
+
+function stateWith(status: ConversationStatus, changes: Partial<ConversationState> = {}): ConversationState {
+  return { status, micActive: false, transcript: status === "idle" ? "" : "earlier", turnId: TURN, ...changes };
+}
+
+const EVENTS: ConversationEvent[] = [
+  { type: "ENABLE" },
+  { type: "DISABLE" },
+  { type: "MIC_STARTED" },
+  { type: "MIC_STOPPED" },
+  { type: "FINAL_TRANSCRIPT", transcript: "two kaju katli" },
+  { type: "RESPONSE_FAILED", turnId: TURN },
+  { type: "PLAYBACK_STARTED", turnId: TURN },
+  { type: "PLAYBACK_ENDED", turnId: TURN },
+  { type: "PLAYBACK_FAILED", turnId: TURN },
+  { type: "REPLAY", turnId: TURN },
+  { type: "INTERRUPT" },
+];
+
+// Where each event leads from each status (mic closed, current turn); a missing status rejects it
+const EXPECTED: Record<ConversationEvent["type"], Partial<Record<ConversationStatus, ConversationStatus>>> = {
+  ENABLE: { idle: "listening" },
+  DISABLE: { listening: "idle", sending: "idle", speaking: "idle", interrupted: "idle" },
+  MIC_STARTED: { listening: "listening", sending: "sending", speaking: "speaking", interrupted: "listening" },
+  MIC_STOPPED: {},
+  FINAL_TRANSCRIPT: { listening: "sending", speaking: "sending", interrupted: "sending" },
+  RESPONSE_FAILED: { sending: "listening" },
+  PLAYBACK_STARTED: { sending: "speaking" },
+  PLAYBACK_ENDED: { speaking: "listening" },
+  PLAYBACK_FAILED: { sending: "listening", speaking: "listening" },
+  REPLAY: { listening: "sending" },
+  INTERRUPT: { sending: "interrupted", speaking: "interrupted" },
+};
+
+describe("transition", () => {
+  for (const event of EVENTS) {
+    describe(event.type, () => {
+      it.each(STATUSES)("from %s", (status) => {
+        const state = stateWith(status);
+        const next = transition(state, event);
+        const expected = EXPECTED[event.type][status];
+
+        if (expected === undefined) {
+          expect(next).toBe(state);
+        } else {
+          expect(next).not.toBe(state);
+          expect(next.status).toBe(expected);
+        }
+      });
+    });
+  }
+
+  it("enables with a fresh state that keeps the turn count", () => {
+    expect(transition(stateWith("idle", { turnId: 7 }), { type: "ENABLE" })).toEqual({
+      ...initialConversationState,
+      status: "listening",
+      turnId: 7,
+    });
+  });
+
+  it("keeps counting turns through a disable so earlier turns stay stale", () => {
+    const disabled = transition(stateWith("speaking", { micActive: true }), { type: "DISABLE" });
+    expect(disabled).toEqual({ ...initialConversationState, turnId: TURN });
+    const sending = transition(transition(disabled, { type: "ENABLE" }), { type: "FINAL_TRANSCRIPT", transcript: "hi" });
+    expect(sending.turnId).toBe(TURN + 1);
+    expect(transition(sending, { type: "PLAYBACK_STARTED", turnId: TURN })).toBe(sending);
+  });
+
+  it("opens the mic without leaving the turn, and closes it", () => {
+    const open = transition(stateWith("speaking"), { type: "MIC_STARTED" });
+    expect(open).toMatchObject({ status: "speaking", micActive: true, transcript: "earlier" });
+    expect(transition(open, { type: "MIC_STARTED" })).toBe(open);
+    expect(transition(open, { type: "MIC_STOPPED" })).toMatchObject({ status: "speaking", micActive: false });
+  });
+
+  it("leaves interrupted for listening once the mic is back", () => {
+    expect(transition(stateWith("interrupted"), { type: "MIC_STARTED" })).toMatchObject({
+      status: "listening",
+      micActive: true,
+      transcript: "",
+    });
+  });
+
+  it("starts a new turn with the trimmed transcript", () => {
+    expect(transition(stateWith("listening"), { type: "FINAL_TRANSCRIPT", transcript: "  one jalebi " })).toEqual({
+      status: "sending",
+      micActive: false,
+      transcript: "one jalebi",
+      turnId: TURN + 1,
+    });
+  });
+
+  it("ignores blank transcripts", () => {
+    const state = stateWith("listening");
+    expect(transition(state, { type: "FINAL_TRANSCRIPT", transcript: "   " })).toBe(state);
+  });
+
+  it("takes a barge-in over the AI as the next turn", () => {
+    const next = transition(stateWith("speaking", { micActive: true }), {
+      type: "FINAL_TRANSCRIPT",
+      transcript: "wait, make it three",
+    });
+    expect(next).toMatchObject({ status: "sending", micActive: true, transcript: "wait, make it three", turnId: 4 });
+  });
+
+  it("goes back to listening when the backend fails", () => {
+    const sending = transition(stateWith("listening"), { type: "FINAL_TRANSCRIPT", transcript: "hello" });
+    expect(transition(sending, { type: "RESPONSE_FAILED", turnId: sending.turnId })).toMatchObject({
+      status: "listening",
+      transcript: "hello",
+      turnId: sending.turnId,
+    });
+  });
+
+  it.each<ConversationEvent>([
+    { type: "RESPONSE_FAILED", turnId: TURN - 1 },
+    { type: "PLAYBACK_STARTED", turnId: TURN - 1 },
+    { type: "PLAYBACK_FAILED", turnId: TURN - 1 },
+    { type: "RESPONSE_FAILED", turnId: TURN + 1 },
+  ])("rejects $type for another turn while sending", (event) => {
+    const state = stateWith("sending");
+    expect(transition(state, event)).toBe(state);
+  });
+
+  it.each<ConversationEvent>([
+    { type: "PLAYBACK_ENDED", turnId: TURN - 1 },
+    { type: "PLAYBACK_FAILED", turnId: TURN - 1 },
+  ])("rejects $type for another turn while speaking", (event) => {
+    const state = stateWith("speaking");
+    expect(transition(state, event)).toBe(state);
+  });
+
+  it("replays only the latest turn's reply", () => {
+    const state = stateWith("listening");
+    expect(transition(state, { type: "REPLAY", turnId: TURN - 1 })).toBe(state);
+    expect(transition(state, { type: "REPLAY", turnId: TURN })).toMatchObject({
+      status: "sending",
+      transcript: "earlier",
+      turnId: TURN,
+    });
+  });
+});
+
+describe("canStartMic", () => {
+  it.each<[ConversationStatus, boolean]>([
+    ["idle", false],
+    ["listening", true],
+    ["sending", false],
+    ["speaking", true],
+    ["interrupted", true],
+  ])("in %s: %s", (status, expected) => {
+    expect(canStartMic(stateWith(status))).toBe(expected);
+  });
+
+  it("is false while the mic is already open", () => {
+    expect(canStartMic(stateWith("listening", { micActive: true }))).toBe(false);
+  });
+});
+
+describe("isCurrentTurn", () => {
+  it("holds for the turn being sent or spoken", () => {
+    expect(isCurrentTurn(stateWith("sending"), TURN)).toBe(true);
+    expect(isCurrentTurn(stateWith("speaking"), TURN)).toBe(true);
+  });
+
+  it("fails for other turns and once the turn is over", () => {
+    expect(isCurrentTurn(stateWith("speaking"), TURN - 1)).toBe(false);
+    expect(isCurrentTurn(stateWith("listening"), TURN)).toBe(false);
+    expect(isCurrentTurn(stateWith("interrupted"), TURN)).toBe(false);
+  });
+});
+
+describe("isBargeIn", () => {
+  it("is a new utterance accepted while the AI speaks", () => {
+    const speaking = stateWith("speaking", { micActive: true });
+    expect(isBargeIn(speaking, transition(speaking, { type: "FINAL_TRANSCRIPT", transcript: "stop" }))).toBe(true);
+  });
+
+  it("is not a regular turn or an interruption", () => {
+    const listening = stateWith("listening");
+    expect(isBargeIn(listening, transition(listening, { type: "FINAL_TRANSCRIPT", transcript: "hi" }))).toBe(false);
+    const speaking = stateWith("speaking");
+    expect(isBargeIn(speaking, transition(speaking, { type: "INTERRUPT" }))).toBe(false);
+    expect(isBargeIn(speaking, transition(speaking, { type: "PLAYBACK_ENDED", turnId: TURN }))).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+// Conversation lifecycle of the voice assistant as a pure state machine:
+//
+//   idle → listening → sending → speaking → listening → ...
+//
+// Tapping the mic while sending or speaking moves to `interrupted` until the mic is back.
+// Speaking over the AI (barge-in) goes straight from `speaking` to `sending` with the new
+// transcript. Events that are not valid for the current state are ignored, and the same
+// state object is returned so callers can detect a rejected event by reference.
+//
+// A reply that failed to play can be replayed while its turn is still the latest one, which goes
+// back to `sending` until the audio starts again.
+//
+// Every accepted utterance starts a new turn. Backend and playback events carry the turn they
+// belong to, and events for any other turn are stale and ignored.
+
+export type ConversationStatus = "idle" | "listening" | "sending" | "speaking" | "interrupted";
+
+export interface ConversationState {
+  status: ConversationStatus;
+  /** Whether the speech recognizer is currently capturing audio. */
+  micActive: boolean;
+  /** The utterance currently being answered. */
+  transcript: string;
+  /** Increments with every accepted utterance; 0 before the first one. */
+  turnId: number;
+}
+
+export type ConversationEvent =
+  | { type: "ENABLE" }
+  | { type: "DISABLE" }
+  | { type: "MIC_STARTED" }
+  | { type: "MIC_STOPPED" }
+  | { type: "FINAL_TRANSCRIPT"; transcript: string }
+  | { type: "RESPONSE_FAILED"; turnId: number }
+  | { type: "PLAYBACK_STARTED"; turnId: number }
+  | { type: "PLAYBACK_ENDED"; turnId: number }
+  | { type: "PLAYBACK_FAILED"; turnId: number }
+  | { type: "REPLAY"; turnId: number }
+  | { type: "INTERRUPT" };
+
+export const initialConversationState: ConversationState = {
+  status: "idle",
+  micActive: false,
+  transcript: "",
+  turnId: 0,
+};
+
+export function transition(state: ConversationState, event: ConversationEvent): ConversationState {
+  switch (event.type) {
+    case "ENABLE":
+      if (state.status !== "idle") return state;
+      return { ...initialConversationState, status: "listening", turnId: state.turnId };
+
+    case "DISABLE":
+      if (state.status === "idle") return state;
+      // Keep counting turns so late events from before the disable stay stale
+      return { ...initialConversationState, turnId: state.turnId };
+
+    case "MIC_STARTED":
+      if (state.status === "idle" || state.micActive) return state;
+      if (state.status === "interrupted") {
+        return { ...state, status: "listening", micActive: true, transcript: "" };
+      }
+      return { ...state, micActive: true };
+
+    case "MIC_STOPPED":
+      if (!state.micActive) return state;
+      return { ...state, micActive: false };
+
+    case "FINAL_TRANSCRIPT": {
+      const transcript = event.transcript.trim();
+      if (!transcript) return state;
+      // A new utterance is only accepted while waiting for one, or as a barge-in over the AI
+      if (state.status !== "listening" && state.status !== "interrupted" && state.status !== "speaking") {
+        return state;
+      }
+      return { ...state, status: "sending", transcript, turnId: state.turnId + 1 };
+    }
+
+    case "RESPONSE_FAILED":
+      if (state.status !== "sending" || event.turnId !== state.turnId) return state;
+      return { ...state, status: "listening" };
+
+    case "PLAYBACK_STARTED":
+      if (state.status !== "sending" || event.turnId !== state.turnId) return state;
+      return { ...state, status: "speaking" };
+
+    case "PLAYBACK_ENDED":
+      if (state.status !== "speaking" || event.turnId !== state.turnId) return state;
+      return { ...state, status: "listening" };
+
+    case "PLAYBACK_FAILED":
+      if (state.status !== "speaking" && state.status !== "sending") return state;
+      if (event.turnId !== state.turnId) return state;
+      return { ...state, status: "listening" };
+
+    case "REPLAY":
+      if (state.status !== "listening" || event.turnId !== state.turnId) return state;
+      return { ...state, status: "sending" };
+
+    case "INTERRUPT":
+      if (state.status !== "sending" && state.status !== "speaking") return state;
+      return { ...state, status: "interrupted" };
+  }
+}
+
+// The mic stays open while the AI speaks so the user can interrupt it
+export function canStartMic(state: ConversationState): boolean {
+  if (state.micActive) return false;
+  return state.status === "listening" || state.status === "interrupted" || state.status === "speaking";
+}
+
+export function isCurrentTurn(state: ConversationState, turnId: number): boolean {
+  return state.turnId === turnId && (state.status === "sending" || state.status === "speaking");
+}
+
+export function isBargeIn(previous: ConversationState, next: ConversationState): boolean {
+  return previous.status === "speaking" && next.status === "sending";
+}
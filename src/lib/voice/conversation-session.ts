@@ -0,0 +1,47 @@
+import type { HistoryTurn } from "@/lib/voice/conversation-history";
+
+// Client-side conversation session sent with every turn, so the backend can keep multi-turn
+// context and tell customers apart. A new session starts whenever the assistant is switched off.
+
+export interface ConversationSession {
+  id: string;
+  startedAt: number;
+  /** Number of turns already sent in this session. */
+  turnIndex: number;
+  locale: string;
+}
+
+export interface ContextMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export const CONTEXT_TURN_LIMIT = 6;
+
+function generateSessionId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createSession(locale: string): ConversationSession {
+  return { id: generateSessionId(), startedAt: Date.now(), turnIndex: 0, locale };
+}
+
+/** The last `limit` completed exchanges of `sessionId`, oldest first. */
+export function buildContext(
+  turns: HistoryTurn[],
+  sessionId: string,
+  limit: number = CONTEXT_TURN_LIMIT,
+): ContextMessage[] {
+  return turns
+    .filter((turn) => turn.sessionId === sessionId && turn.status !== "pending")
+    .slice(-limit)
+    .flatMap((turn): ContextMessage[] =>
+      turn.replyText
+        ? [
+            { role: "user", text: turn.userText },
+            { role: "assistant", text: turn.replyText },
+          ]
+        : [{ role: "user", text: turn.userText }],
+    );
+}
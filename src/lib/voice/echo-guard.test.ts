@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { echoSimilarity, isLikelyEcho } from "@/lib/voice/echo-guard";
+
+const question = "Kaju katli or barfi? Both are fresh today.";
+const confirmation = "Two kaju katli coming up, anything else for you?";
+
+describe("isLikelyEcho", () => {
+  it("catches the reply heard back through the mic", () => {
+    expect(isLikelyEcho("two kaju katli coming up", confirmation)).toBe(true);
+    expect(isLikelyEcho("Anything else for you", confirmation)).toBe(true);
+  });
+
+  it("catches echo with a misrecognised word", () => {
+    expect(isLikelyEcho("two kaju cutlet coming up anything", confirmation)).toBe(true);
+  });
+
+  it("matches across scripts after normalising case and punctuation", () => {
+    expect(isLikelyEcho("दो काजू कतली आ रही है", "दो काजू कतली आ रही है, और कुछ?")).toBe(true);
+  });
+
+  it.each(["kaju katli", "yes two kaju katli", "barfi, both of them", "fresh barfi or kaju katli"])(
+    "lets the answer %j through",
+    (answer) => {
+      expect(isLikelyEcho(answer, question)).toBe(false);
+    },
+  );
+
+  it("lets reply words in another order through", () => {
+    expect(isLikelyEcho("barfi or katli kaju", "Kaju katli or barfi?")).toBe(false);
+  });
+
+  it("lets a stray word through", () => {
+    expect(isLikelyEcho("barfi", question)).toBe(false);
+  });
+});
+
+describe("echoSimilarity", () => {
+  it("is 1 for a stretch of the reply and 0 for unrelated speech", () => {
+    expect(echoSimilarity("or barfi both", question)).toBe(1);
+    expect(echoSimilarity("one jalebi please", question)).toBe(0);
+  });
+
+  it("counts skipped words against the match", () => {
+    // "kaju katli" lines up, then "barfi" only after skipping "or"
+    expect(echoSimilarity("kaju katli barfi", "kaju katli or barfi")).toBeCloseTo(2 / 3);
+  });
+
+  it("is 0 for a transcript without words", () => {
+    expect(echoSimilarity("?!", question)).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+// Self-echo protection. The mic stays open while the assistant speaks so the customer can
+// interrupt, which means the speakers can be heard too. The browser's echo canceller removes
+// most of that; whatever still reaches the recognizer is caught by comparing transcripts with
+// the reply being spoken. Echo repeats a stretch of the reply in order, while an answer like
+// "yes, two kaju katli" to "Kaju katli or barfi?" only reuses some of its words, so transcripts
+// are aligned against contiguous parts of the reply rather than checked word by word.
+
+/** Microphone constraints for every stream the assistant opens. */
+export const ECHO_CANCELLING_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+};
+
+/** Share of a transcript's words that must line up with part of the reply for it to count as echo. */
+export const ECHO_SIMILARITY_THRESHOLD = 0.8;
+/** How long after a reply stops its echo may still come back from the recognizer. */
+export const ECHO_TAIL_MS = 1500;
+// Short answers often repeat a choice from the reply word for word ("kaju katli"), so only
+// longer transcripts are judged; a short echo that gets through is at worst an extra turn
+const MIN_ECHO_WORDS = 3;
+
+export interface EchoStats {
+  /** Final transcripts dropped as echo. */
+  finals: number;
+  /** Interim transcripts dropped as echo. */
+  interims: number;
+}
+
+export const initialEchoStats: EchoStats = { finals: 0, interims: 0 };
+
+function toWords(text: string) {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * How closely the transcript follows some contiguous part of the reply, from 0 to 1: the best
+ * local alignment of the two word sequences, relative to the transcript's length. Matching words
+ * count, a misrecognised word costs nothing and a skipped word in either sequence costs one.
+ */
+export function echoSimilarity(transcript: string, reply: string): number {
+  const words = toWords(transcript);
+  const replyWords = toWords(reply);
+  if (words.length === 0) return 0;
+
+  // Smith-Waterman, keeping only the previous row
+  let previous = new Array<number>(replyWords.length + 1).fill(0);
+  let best = 0;
+  for (const word of words) {
+    const row = [0];
+    for (let j = 1; j <= replyWords.length; j++) {
+      const aligned = previous[j - 1] + (word === replyWords[j - 1] ? 1 : 0);
+      row[j] = Math.max(0, aligned, previous[j] - 1, row[j - 1] - 1);
+      best = Math.max(best, row[j]);
+    }
+    previous = row;
+  }
+  return best / words.length;
+}
+
+export function isLikelyEcho(transcript: string, reply: string, threshold = ECHO_SIMILARITY_THRESHOLD): boolean {
+  if (toWords(transcript).length < MIN_ECHO_WORDS) return false;
+  return echoSimilarity(transcript, reply) >= threshold;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveEndpoint, resolveStaticEndpoint, type VoiceConfigFile } from "@/lib/voice/endpoint-config";
+
+const config: VoiceConfigFile = {
+  defaultEnvironment: "production",
+  environments: {
+    production: { label: "Production", url: "https://hooks.example.test/voice" },
+    staging: { label: "Staging", url: "https://staging.example.test/voice" },
+  },
+};
+
+const webhook = "?webhook=https://elsewhere.example.test/voice";
+
+describe("resolveEndpoint", () => {
+  it("honours ?webhook in development builds", () => {
+    const endpoint = resolveEndpoint(webhook, config, { DEV: true });
+
+    expect(endpoint).toMatchObject({ source: "query", url: "https://elsewhere.example.test/voice" });
+  });
+
+  it("ignores ?webhook in production builds", () => {
+    expect(resolveEndpoint(webhook, config, { DEV: false })).toMatchObject({ source: "config", name: "production" });
+    expect(resolveStaticEndpoint(webhook, { DEV: false })).toMatchObject({ source: "default" });
+  });
+
+  it("still picks a named environment with ?env in production builds", () => {
+    expect(resolveEndpoint("?env=staging", config, { DEV: false })).toMatchObject({
+      source: "config",
+      url: "https://staging.example.test/voice",
+    });
+  });
+});
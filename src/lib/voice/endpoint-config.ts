@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+import { createLogger } from "@/lib/logger";
+
+// Where the assistant sends its turns. Resolution order, highest first:
+//   1. `?webhook=<url>` (optionally `&mirror=<url>`) in the page URL, in development builds only;
+//      a shared production link must never be able to send customers' speech to another server
+//   2. `?env=<name>`, or `defaultEnvironment`, from /voice-config.json
+//   3. VITE_VOICE_WEBHOOK_URL / VITE_VOICE_MIRROR_URL / VITE_VOICE_ENV_LABEL at build time
+//   4. The production n8n webhook
+// Invalid values are reported and skipped so a typo never leaves the assistant without a backend.
+
+const log = createLogger("voice:config");
+
+export type VoiceEndpointSource = "query" | "config" | "env" | "default";
+
+export interface VoiceEndpoint {
+  name: string;
+  label: string;
+  url: string;
+  mirrorUrl?: string;
+  source: VoiceEndpointSource;
+}
+
+export const VOICE_CONFIG_PATH = "/voice-config.json";
+
+const DEFAULT_ENDPOINT: VoiceEndpoint = {
+  name: "production",
+  label: "Production",
+  url: "https://spacecadet4.app.n8n.cloud/webhook/voice-reply",
+  mirrorUrl: "https://spacecadet4.app.n8n.cloud/webhook-test/voice-reply",
+  source: "default",
+};
+
+const webhookUrlSchema = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//.test(value), "Webhook URLs must use http or https");
+
+const environmentSchema = z.object({
+  label: z.string().min(1).optional(),
+  url: webhookUrlSchema,
+  mirrorUrl: webhookUrlSchema.optional(),
+});
+
+const configFileSchema = z.object({
+  defaultEnvironment: z.string().optional(),
+  environments: z.record(environmentSchema),
+});
+
+export type VoiceConfigFile = z.infer<typeof configFileSchema>;
+
+export interface VoiceEnv {
+  DEV?: boolean;
+  VITE_VOICE_WEBHOOK_URL?: string;
+  VITE_VOICE_MIRROR_URL?: string;
+  VITE_VOICE_ENV_LABEL?: string;
+}
+
+function optionalUrl(value: string | null | undefined, origin: string): string | undefined {
+  if (!value) return undefined;
+  const parsed = webhookUrlSchema.safeParse(value);
+  if (!parsed.success) {
+    log.warn(`Ignoring invalid webhook URL from ${origin}`, value);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+function endpointFromEnv(env: VoiceEnv): VoiceEndpoint {
+  const url = optionalUrl(env.VITE_VOICE_WEBHOOK_URL, "VITE_VOICE_WEBHOOK_URL");
+  if (!url) return DEFAULT_ENDPOINT;
+  return {
+    name: "build",
+    label: env.VITE_VOICE_ENV_LABEL || "Custom build",
+    url,
+    mirrorUrl: optionalUrl(env.VITE_VOICE_MIRROR_URL, "VITE_VOICE_MIRROR_URL"),
+    source: "env",
+  };
+}
+
+function endpointFromQuery(search: string, env: VoiceEnv): VoiceEndpoint | null {
+  const params = new URLSearchParams(search);
+  if (!env.DEV) {
+    if (params.has("webhook")) log.warn("Ignoring ?webhook outside development builds, use ?env instead");
+    return null;
+  }
+  const url = optionalUrl(params.get("webhook"), "?webhook");
+  if (!url) return null;
+  return {
+    name: "query",
+    label: `Custom (${new URL(url).host})`,
+    url,
+    mirrorUrl: optionalUrl(params.get("mirror"), "?mirror"),
+    source: "query",
+  };
+}
+
+export function parseVoiceConfig(value: unknown): VoiceConfigFile | null {
+  const parsed = configFileSchema.safeParse(value);
+  if (!parsed.success) {
+    log.warn(`Ignoring invalid ${VOICE_CONFIG_PATH}`, parsed.error.message);
+    return null;
+  }
+  return parsed.data;
+}
+
+/** Everything that can be resolved without a network request. */
+export function resolveStaticEndpoint(search: string, env: VoiceEnv = import.meta.env): VoiceEndpoint {
+  return endpointFromQuery(search, env) ?? endpointFromEnv(env);
+}
+
+export function resolveEndpoint(search: string, config: VoiceConfigFile | null, env: VoiceEnv = import.meta.env) {
+  const fromQuery = endpointFromQuery(search, env);
+  if (fromQuery) return fromQuery;
+
+  if (config) {
+    const requested = new URLSearchParams(search).get("env");
+    const name = requested ?? config.defaultEnvironment;
+    const environment = name ? config.environments[name] : undefined;
+    if (requested && !environment) {
+      log.warn(`Unknown environment "${requested}" in ?env, using the default endpoint`);
+    }
+    if (environment) {
+      return {
+        name,
+        label: environment.label ?? name,
+        url: environment.url,
+        mirrorUrl: environment.mirrorUrl,
+        source: "config",
+      } satisfies VoiceEndpoint;
+    }
+  }
+
+  return endpointFromEnv(env);
+}
+
+export async function loadVoiceConfig(fetchImpl: typeof fetch = fetch): Promise<VoiceConfigFile | null> {
+  try {
+    const response = await fetchImpl(VOICE_CONFIG_PATH, { cache: "no-cache" });
+    if (!response.ok) return null;
+    return parseVoiceConfig(await response.json());
+  } catch (error) {
+    log.warn(`Could not load ${VOICE_CONFIG_PATH}`, error);
+    return null;
+  }
+}
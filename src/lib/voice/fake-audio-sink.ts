@@ -0,0 +1,98 @@
+import { readAudioSource, type AudioSink, type AudioSinkHandlers } from "@/lib/voice/audio-sink";
+
+// In-memory sink that records what it was asked to play. Playback only progresses, ends or
+// fails when the test says so, and object URL bookkeeping mirrors the HTML audio sink.
+
+export interface FakeAudioSink extends AudioSink {
+  readonly played: Blob[];
+  readonly stopCount: number;
+  readonly volume: number;
+  /** URLs handed out for played blobs that have not been revoked yet. */
+  readonly liveUrls: string[];
+  /** Makes the next play() reject, like a browser blocking autoplay. */
+  failNextPlay(error?: Error): void;
+  progress(currentTime: number, duration?: number): void;
+  finish(): void;
+  fail(error?: Error): void;
+}
+
+export function createFakeAudioSink(): FakeAudioSink {
+  let handlers: AudioSinkHandlers = {};
+  let currentUrl: string | null = null;
+  let nextPlayError: Error | null = null;
+  let urlCount = 0;
+  let stopCount = 0;
+  let volume = 1;
+  // Bumped on every stop, like the real sinks, so a play() still reading its source gives up
+  let generation = 0;
+  const played: Blob[] = [];
+  const liveUrls = new Set<string>();
+
+  const release = () => {
+    if (!currentUrl) return false;
+    liveUrls.delete(currentUrl);
+    currentUrl = null;
+    return true;
+  };
+
+  return {
+    get playing() {
+      return currentUrl !== null;
+    },
+    get played() {
+      return played;
+    },
+    get stopCount() {
+      return stopCount;
+    },
+    get volume() {
+      return volume;
+    },
+    get liveUrls() {
+      return [...liveUrls];
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    async play(source) {
+      release();
+      const playGeneration = ++generation;
+      const blob = await readAudioSource(source);
+      if (playGeneration !== generation) throw new DOMException("Playback was stopped", "AbortError");
+      played.push(blob);
+      if (nextPlayError) {
+        const error = nextPlayError;
+        nextPlayError = null;
+        throw error;
+      }
+      currentUrl = `blob:fake/${++urlCount}`;
+      liveUrls.add(currentUrl);
+    },
+    stop() {
+      generation++;
+      if (release()) stopCount++;
+    },
+    setVolume(next) {
+      volume = next;
+    },
+    getWaveform() {
+      return false;
+    },
+    dispose() {
+      release();
+      handlers = {};
+    },
+    failNextPlay(error = new DOMException("play() was blocked", "NotAllowedError")) {
+      nextPlayError = error;
+    },
+    progress(currentTime, duration = NaN) {
+      if (currentUrl) handlers.onProgress?.({ currentTime, duration });
+    },
+    finish() {
+      if (release()) handlers.onEnded?.();
+    },
+    fail(error = new Error("Audio playback failed")) {
+      if (release()) handlers.onError?.(error);
+    },
+  };
+}
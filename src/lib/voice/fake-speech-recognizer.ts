@@ -0,0 +1,90 @@
+import type {
+  SpeechRecognizer,
+  SpeechRecognizerErrorCode,
+  SpeechRecognizerHandlers,
+  SpeechRecognizerOptions,
+  SpeechRecognizerResult,
+} from "@/lib/voice/speech-recognizer";
+
+// Scripted recognizer for exercising the conversation logic without a browser microphone.
+// Each start() plays the next session of the script; the emit helpers drive it by hand.
+
+export type FakeRecognizerStep =
+  | ({ type: "result" } & Partial<SpeechRecognizerResult> & { transcript: string })
+  | { type: "error"; code: SpeechRecognizerErrorCode }
+  | { type: "end" };
+
+export interface FakeSpeechRecognizer extends SpeechRecognizer {
+  readonly running: boolean;
+  readonly startCount: number;
+  emitResult(transcript: string, result?: Partial<Omit<SpeechRecognizerResult, "transcript">>): void;
+  emitError(code: SpeechRecognizerErrorCode): void;
+  emitEnd(): void;
+}
+
+export function createFakeSpeechRecognizer(
+  options: SpeechRecognizerOptions,
+  script: FakeRecognizerStep[][] = [],
+): FakeSpeechRecognizer {
+  const sessions = [...script];
+  let handlers: SpeechRecognizerHandlers = {};
+  let currentOptions = { ...options };
+  let running = false;
+  let startCount = 0;
+
+  const emitEnd = () => {
+    if (!running) return;
+    running = false;
+    handlers.onEnd?.();
+  };
+
+  const emitResult = (transcript: string, result: Partial<Omit<SpeechRecognizerResult, "transcript">> = {}) => {
+    if (!running) return;
+    handlers.onResult?.({ transcript, confidence: result.confidence ?? 1, isFinal: result.isFinal ?? true });
+  };
+
+  const emitError = (code: SpeechRecognizerErrorCode) => {
+    if (!running) return;
+    handlers.onError?.({ code, message: code });
+    emitEnd();
+  };
+
+  const play = (steps: FakeRecognizerStep[]) => {
+    for (const step of steps) {
+      if (step.type === "result") emitResult(step.transcript, step);
+      else if (step.type === "error") emitError(step.code);
+      else emitEnd();
+    }
+  };
+
+  return {
+    get options() {
+      return currentOptions;
+    },
+    get running() {
+      return running;
+    },
+    get startCount() {
+      return startCount;
+    },
+    configure(next) {
+      currentOptions = { ...currentOptions, ...next };
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    start() {
+      if (running) throw new DOMException("recognition has already started", "InvalidStateError");
+      running = true;
+      startCount++;
+      handlers.onStart?.();
+      const steps = sessions.shift();
+      if (steps) queueMicrotask(() => play(steps));
+    },
+    stop: emitEnd,
+    abort: emitEnd,
+    emitResult,
+    emitError,
+    emitEnd,
+  };
+}
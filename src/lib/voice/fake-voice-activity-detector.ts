@@ -0,0 +1,80 @@
+import {
+  SILENCE_DB,
+  type VoiceActivityDetector,
+  type VoiceActivityHandlers,
+  type VoiceActivityOptions,
+} from "@/lib/voice/voice-activity";
+
+// Detector driven by the test instead of a microphone: speech starts and ends when told to.
+
+export interface FakeVoiceActivityDetector extends VoiceActivityDetector {
+  readonly startCount: number;
+  /** Makes the next start() reject, like a refused microphone permission. */
+  failNextStart(error?: Error): void;
+  setLevel(levelDb: number): void;
+  speechStart(): void;
+  speechEnd(): void;
+}
+
+export function createFakeVoiceActivityDetector(options: VoiceActivityOptions): FakeVoiceActivityDetector {
+  let handlers: VoiceActivityHandlers = {};
+  let currentOptions = { ...options };
+  let running = false;
+  let speaking = false;
+  let level = SILENCE_DB;
+  let startCount = 0;
+  let nextStartError: Error | null = null;
+
+  return {
+    get options() {
+      return currentOptions;
+    },
+    get running() {
+      return running;
+    },
+    get speaking() {
+      return speaking;
+    },
+    get levelDb() {
+      return running ? level : SILENCE_DB;
+    },
+    get startCount() {
+      return startCount;
+    },
+    configure(next) {
+      currentOptions = { ...currentOptions, ...next };
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    async start() {
+      startCount++;
+      if (nextStartError) {
+        const error = nextStartError;
+        nextStartError = null;
+        throw error;
+      }
+      running = true;
+    },
+    stop() {
+      running = false;
+      speaking = false;
+    },
+    setLevel(levelDb) {
+      level = levelDb;
+    },
+    failNextStart(error = new DOMException("Permission denied", "NotAllowedError")) {
+      nextStartError = error;
+    },
+    speechStart() {
+      if (!running || speaking) return;
+      speaking = true;
+      handlers.onSpeechStart?.();
+    },
+    speechEnd() {
+      if (!speaking) return;
+      speaking = false;
+      handlers.onSpeechEnd?.();
+    },
+  };
+}
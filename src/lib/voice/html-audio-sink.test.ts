@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createHtmlAudioSink } from "@/lib/voice/html-audio-sink";
+
+/** The parts of an audio element the sink touches */
+interface FakeAudio {
+  url: string;
+  volume: number;
+  currentTime: number;
+  duration: number;
+  error: MediaError | null;
+  play: ReturnType<typeof vi.fn>;
+  pause: ReturnType<typeof vi.fn>;
+  onended: (() => void) | null;
+  onerror: (() => void) | null;
+  ontimeupdate: (() => void) | null;
+}
+
+let audios: FakeAudio[];
+let liveUrls: Set<string>;
+let nextUrl: number;
+/** Makes the next element's play() reject, as a blocked autoplay would */
+let nextPlayError: Error | null;
+
+function createAudio(url: string) {
+  const audio: FakeAudio = {
+    url,
+    volume: 1,
+    currentTime: 0,
+    duration: 2,
+    error: null,
+    play: vi.fn(async () => {}),
+    pause: vi.fn(),
+    onended: null,
+    onerror: null,
+    ontimeupdate: null,
+  };
+  if (nextPlayError) audio.play.mockRejectedValueOnce(nextPlayError);
+  nextPlayError = null;
+  audios.push(audio);
+  return audio as unknown as HTMLAudioElement;
+}
+
+const createObjectURL = vi.fn(() => {
+  const url = `blob:test/${nextUrl++}`;
+  liveUrls.add(url);
+  return url;
+});
+const revokeObjectURL = vi.fn((url: string) => {
+  liveUrls.delete(url);
+});
+
+function createSink() {
+  const sink = createHtmlAudioSink({ createAudio, createObjectURL, revokeObjectURL, analyse: false });
+  const handlers = { onEnded: vi.fn(), onError: vi.fn(), onProgress: vi.fn() };
+  sink.setHandlers(handlers);
+  return { sink, handlers };
+}
+
+const mp3 = () => new Blob(["mp3"], { type: "audio/mpeg" });
+
+beforeEach(() => {
+  audios = [];
+  liveUrls = new Set();
+  nextUrl = 0;
+  nextPlayError = null;
+  createObjectURL.mockClear();
+  revokeObjectURL.mockClear();
+});
+
+describe("createHtmlAudioSink", () => {
+  it("plays a blob through a fresh audio element at the current volume", async () => {
+    const { sink } = createSink();
+    sink.setVolume(0.4);
+
+    await sink.play(mp3());
+
+    expect(audios).toHaveLength(1);
+    expect(audios[0].play).toHaveBeenCalledTimes(1);
+    expect(audios[0].volume).toBe(0.4);
+    expect(sink.playing).toBe(true);
+    expect(liveUrls.size).toBe(1);
+  });
+
+  it("reports progress and revokes the URL when the reply ends", async () => {
+    const { sink, handlers } = createSink();
+    await sink.play(mp3());
+    const [audio] = audios;
+
+    audio.currentTime = 1.5;
+    audio.ontimeupdate?.();
+    expect(handlers.onProgress).toHaveBeenCalledWith({ currentTime: 1.5, duration: 2 });
+
+    audio.onended?.();
+
+    expect(handlers.onEnded).toHaveBeenCalledTimes(1);
+    expect(sink.playing).toBe(false);
+    expect(liveUrls.size).toBe(0);
+  });
+
+  it("stops silently and revokes the URL", async () => {
+    const { sink, handlers } = createSink();
+    await sink.play(mp3());
+    const [audio] = audios;
+
+    sink.stop();
+
+    expect(audio.pause).toHaveBeenCalled();
+    expect(audio.currentTime).toBe(0);
+    expect(audio.onended).toBeNull();
+    expect(handlers.onEnded).not.toHaveBeenCalled();
+    expect(liveUrls.size).toBe(0);
+  });
+
+  it("reports a media error and revokes the URL", async () => {
+    const { sink, handlers } = createSink();
+    await sink.play(mp3());
+    const [audio] = audios;
+
+    audio.error = { message: "Undecodable reply" } as MediaError;
+    audio.onerror?.();
+
+    expect(handlers.onError).toHaveBeenCalledWith(new Error("Undecodable reply"));
+    expect(sink.playing).toBe(false);
+    expect(liveUrls.size).toBe(0);
+  });
+
+  it("rethrows a rejected play() and revokes the URL without calling a handler", async () => {
+    const { sink, handlers } = createSink();
+    const blocked = new DOMException("Autoplay blocked", "NotAllowedError");
+    nextPlayError = blocked;
+
+    await expect(sink.play(mp3())).rejects.toBe(blocked);
+
+    expect(sink.playing).toBe(false);
+    expect(liveUrls.size).toBe(0);
+    expect(handlers.onError).not.toHaveBeenCalled();
+  });
+
+  it("replaces the current reply and revokes its URL", async () => {
+    const { sink, handlers } = createSink();
+    await sink.play(mp3());
+    const [first] = audios;
+
+    await sink.play(mp3());
+
+    expect(first.pause).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith(first.url);
+    expect([...liveUrls]).toEqual([audios[1].url]);
+
+    first.onended?.();
+    expect(handlers.onEnded).not.toHaveBeenCalled();
+  });
+
+  it("abandons a stream stopped while it is still being read", async () => {
+    const { sink } = createSink();
+    let finishBody: () => void = () => {};
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3]));
+        finishBody = () => controller.close();
+      },
+    });
+
+    const playing = sink.play(body, "audio/mpeg");
+    sink.stop();
+    finishBody();
+
+    await expect(playing).rejects.toMatchObject({ name: "AbortError" });
+    expect(audios).toEqual([]);
+    expect(createObjectURL).not.toHaveBeenCalled();
+  });
+
+  it("releases everything on dispose", async () => {
+    const { sink, handlers } = createSink();
+    await sink.play(mp3());
+
+    sink.dispose();
+
+    expect(liveUrls.size).toBe(0);
+    expect(sink.playing).toBe(false);
+    expect(handlers.onEnded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { createLogger } from "@/lib/logger";
+import {
+  getSourceType,
+  readAudioSource,
+  type AudioSink,
+  type AudioSinkHandlers,
+  type AudioSource,
+  WAVEFORM_SIZE,
+} from "@/lib/voice/audio-sink";
+
+const log = createLogger("voice:playback");
+
+export interface HtmlAudioSinkOptions {
+  createAudio?: (url: string) => HTMLAudioElement;
+  createObjectURL?: (object: Blob | MediaSource) => string;
+  revokeObjectURL?: (url: string) => void;
+  /** Routes playback through a Web Audio analyser so getWaveform() works. */
+  analyse?: boolean;
+}
+
+interface Playback {
+  audio: HTMLAudioElement;
+  url: string;
+  reader?: ReadableStreamDefaultReader<Uint8Array>;
+  node?: MediaElementAudioSourceNode;
+}
+
+export function canStreamWithMediaSource(mimeType: string): boolean {
+  return typeof MediaSource !== "undefined" && MediaSource.isTypeSupported(mimeType);
+}
+
+export function createHtmlAudioSink({
+  createAudio = (url) => new Audio(url),
+  createObjectURL = (object) => URL.createObjectURL(object),
+  revokeObjectURL = (url) => URL.revokeObjectURL(url),
+  analyse = true,
+}: HtmlAudioSinkOptions = {}): AudioSink {
+  let handlers: AudioSinkHandlers = {};
+  let current: Playback | null = null;
+  let volume = 1;
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  // Bumped on every stop so a play() still reading its source knows it was superseded
+  let generation = 0;
+
+  const release = () => {
+    generation++;
+    if (!current) return;
+    const { audio, url, reader, node } = current;
+    current = null;
+    node?.disconnect();
+    audio.onended = null;
+    audio.onerror = null;
+    audio.ontimeupdate = null;
+    reader?.cancel().catch(() => {});
+    try {
+      audio.pause();
+      audio.currentTime = 0;
+    } catch (error) {
+      log.error("Could not stop audio", error);
+    }
+    revokeObjectURL(url);
+  };
+
+  const fail = (playback: Playback, error: Error) => {
+    if (current !== playback) return;
+    release();
+    handlers.onError?.(error);
+  };
+
+  // Every reply URL is a local blob or MediaSource, so routing it through Web Audio is never
+  // blocked by CORS. A context that is not running yet would mute the element, so until it is
+  // the reply plays directly and simply has no waveform.
+  const connectAnalyser = (audio: HTMLAudioElement) => {
+    if (!analyse || typeof AudioContext === "undefined") return undefined;
+    if (!context) {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = WAVEFORM_SIZE;
+      analyser.connect(context.destination);
+    }
+    if (context.state !== "running") {
+      context.resume().catch(() => {});
+      return undefined;
+    }
+    const node = context.createMediaElementSource(audio);
+    node.connect(analyser);
+    return node;
+  };
+
+  const start = async (playback: Playback) => {
+    const { audio } = playback;
+    current = playback;
+    audio.volume = volume;
+    playback.node = connectAnalyser(audio);
+
+    audio.ontimeupdate = () => {
+      handlers.onProgress?.({ currentTime: audio.currentTime, duration: audio.duration });
+    };
+    audio.onended = () => {
+      if (current !== playback) return;
+      release();
+      handlers.onEnded?.();
+    };
+    audio.onerror = () => fail(playback, new Error(audio.error?.message || "Audio playback failed"));
+
+    try {
+      await audio.play();
+    } catch (error) {
+      if (current === playback) release();
+      throw error;
+    }
+  };
+
+  // Appends chunks to a MediaSource as they arrive so playback begins on the first bytes
+  const streamWithMediaSource = (stream: ReadableStream<Uint8Array>, mimeType: string) => {
+    const mediaSource = new MediaSource();
+    const url = createObjectURL(mediaSource);
+    const playback: Playback = { audio: createAudio(url), url, reader: stream.getReader() };
+
+    mediaSource.addEventListener(
+      "sourceopen",
+      async () => {
+        if (current !== playback) return;
+        const buffer = mediaSource.addSourceBuffer(mimeType);
+        try {
+          for (;;) {
+            const { done, value } = await playback.reader.read();
+            if (current !== playback) return;
+            if (done) break;
+            buffer.appendBuffer(value);
+            await new Promise((resolve) => buffer.addEventListener("updateend", resolve, { once: true }));
+          }
+          if (mediaSource.readyState === "open") mediaSource.endOfStream();
+        } catch (error) {
+          fail(playback, error instanceof Error ? error : new Error("Audio stream failed"));
+        }
+      },
+      { once: true },
+    );
+
+    return start(playback);
+  };
+
+  return {
+    get playing() {
+      return current !== null;
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    async play(source: AudioSource, mimeType?: string) {
+      release();
+      const type = getSourceType(source, mimeType);
+
+      if (!(source instanceof Blob) && canStreamWithMediaSource(type)) {
+        return streamWithMediaSource(source, type);
+      }
+
+      const playGeneration = generation;
+      const blob = await readAudioSource(source, type);
+      if (playGeneration !== generation) throw new DOMException("Playback was stopped", "AbortError");
+      const url = createObjectURL(blob);
+      return start({ audio: createAudio(url), url });
+    },
+    stop: release,
+    setVolume(next) {
+      volume = next;
+      if (current) current.audio.volume = next;
+    },
+    getWaveform(samples) {
+      if (!current?.node || !analyser) return false;
+      analyser.getFloatTimeDomainData(samples);
+      return true;
+    },
+    dispose() {
+      release();
+      handlers = {};
+      void context?.close();
+      context = null;
+      analyser = null;
+    },
+  };
+}
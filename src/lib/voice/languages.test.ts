@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { AUTO_SWITCH_LOW_CONFIDENCE_TURNS, pickAutoLanguage, type LanguageCode } from "@/lib/voice/languages";
+
+describe("pickAutoLanguage", () => {
+  it("follows the transcript's script", () => {
+    expect(pickAutoLanguage("en-IN", { transcript: "બે જલેબી", confidence: 0.9 }).language).toBe("gu-IN");
+    expect(pickAutoLanguage("en-IN", { transcript: "दो जलेबी", confidence: 0.9 }).language).toBe("hi-IN");
+  });
+
+  it("keeps Marathi for confident Devanagari text", () => {
+    expect(pickAutoLanguage("mr-IN", { transcript: "दोन जिलेबी", confidence: 0.8 })).toEqual({
+      language: "mr-IN",
+      lowConfidenceTurns: 0,
+    });
+  });
+
+  it("moves off English when it keeps being unsure of its own Latin text", () => {
+    // What an en-IN recognizer makes of Hindi speech
+    const heard = { transcript: "do jalebi dena", confidence: 0.2 };
+    let language: LanguageCode = "en-IN";
+    let lowConfidenceTurns = 0;
+
+    for (let turn = 1; turn < AUTO_SWITCH_LOW_CONFIDENCE_TURNS; turn++) {
+      ({ language, lowConfidenceTurns } = pickAutoLanguage(language, heard, lowConfidenceTurns));
+      expect(language).toBe("en-IN");
+    }
+    ({ language, lowConfidenceTurns } = pickAutoLanguage(language, heard, lowConfidenceTurns));
+
+    expect(language).toBe("hi-IN");
+    expect(lowConfidenceTurns).toBe(0);
+  });
+
+  it("waits for repeated low confidence before trying another language", () => {
+    const heard = { transcript: "दो जलेबी", confidence: 0.2 };
+
+    const first = pickAutoLanguage("hi-IN", heard);
+    expect(first).toEqual({ language: "hi-IN", lowConfidenceTurns: 1 });
+    expect(pickAutoLanguage("hi-IN", heard, first.lowConfidenceTurns)).toEqual({
+      language: "gu-IN",
+      lowConfidenceTurns: 0,
+    });
+  });
+
+  it("switches at once when an unsure transcript is in another language's script", () => {
+    expect(pickAutoLanguage("hi-IN", { transcript: "two jalebi", confidence: 0.2 })).toEqual({
+      language: "en-IN",
+      lowConfidenceTurns: 0,
+    });
+  });
+
+  it("starts counting again after a confident turn", () => {
+    const confident = pickAutoLanguage("en-IN", { transcript: "two jalebi", confidence: 0.8 }, 1);
+    expect(confident).toEqual({ language: "en-IN", lowConfidenceTurns: 0 });
+  });
+
+  it("ignores engines that report no confidence", () => {
+    expect(pickAutoLanguage("en-IN", { transcript: "two jalebi", confidence: 0 }, 5)).toEqual({
+      language: "en-IN",
+      lowConfidenceTurns: 0,
+    });
+  });
+
+  it("moves on to the next language after repeated unsure turns without letters", () => {
+    const heard = { transcript: "2", confidence: 0.2 };
+    expect(pickAutoLanguage("hi-IN", heard).language).toBe("hi-IN");
+    expect(pickAutoLanguage("hi-IN", heard, 1).language).toBe("gu-IN");
+  });
+});
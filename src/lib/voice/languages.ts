@@ -0,0 +1,107 @@
+import { createLogger } from "@/lib/logger";
+
+// Conversation languages offered at the counter. In automatic mode the recognizer starts with
+// the browser's language and, between turns, moves to whichever language the last utterance
+// appears to be in: its script if that gives it away, otherwise another candidate once the
+// recognizer has been unsure of several turns in a row. Every recognizer writes in its own
+// script whatever it hears, so a transcript in that script proves nothing; one in another script
+// confirms an unsure turn was in the wrong language without waiting for more.
+
+const log = createLogger("voice:storage");
+
+export const SUPPORTED_LANGUAGES = [
+  { code: "en-IN", label: "English", nativeLabel: "English" },
+  { code: "hi-IN", label: "Hindi", nativeLabel: "हिन्दी" },
+  { code: "gu-IN", label: "Gujarati", nativeLabel: "ગુજરાતી" },
+  { code: "mr-IN", label: "Marathi", nativeLabel: "मराठी" },
+] as const;
+
+export type LanguageCode = (typeof SUPPORTED_LANGUAGES)[number]["code"];
+export type LanguagePreference = LanguageCode | "auto";
+
+export const LANGUAGE_STORAGE_KEY = "mithai-voice-language";
+export const DEFAULT_LANGUAGE: LanguageCode = "en-IN";
+/** Below this the recognizer is considered to be listening in the wrong language. */
+export const AUTO_SWITCH_CONFIDENCE = 0.5;
+/** Low-confidence turns in a row before automatic mode tries another language. */
+export const AUTO_SWITCH_LOW_CONFIDENCE_TURNS = 2;
+
+const GUJARATI_SCRIPT = /[\u0A80-\u0AFF]/;
+const DEVANAGARI_SCRIPT = /[\u0900-\u097F]/;
+const LATIN_SCRIPT = /[A-Za-z]/;
+
+const LANGUAGE_SCRIPTS: Record<LanguageCode, RegExp> = {
+  "en-IN": LATIN_SCRIPT,
+  "hi-IN": DEVANAGARI_SCRIPT,
+  "gu-IN": GUJARATI_SCRIPT,
+  "mr-IN": DEVANAGARI_SCRIPT,
+};
+
+export interface AutoLanguageChoice {
+  language: LanguageCode;
+  /** Low-confidence turns in a row so far; passed back in with the next turn. */
+  lowConfidenceTurns: number;
+}
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return SUPPORTED_LANGUAGES.some((language) => language.code === value);
+}
+
+export function getLanguage(code: LanguageCode) {
+  return SUPPORTED_LANGUAGES.find((language) => language.code === code)!;
+}
+
+export function detectBrowserLanguage(languages: readonly string[] = navigator.languages ?? []): LanguageCode {
+  for (const tag of languages) {
+    const base = tag.toLowerCase().split("-")[0];
+    const match = SUPPORTED_LANGUAGES.find((language) => language.code.startsWith(`${base}-`));
+    if (match) return match.code;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+export function loadLanguagePreference(storage: Storage = localStorage): LanguagePreference {
+  try {
+    const stored = storage.getItem(LANGUAGE_STORAGE_KEY);
+    return stored === "auto" || isLanguageCode(stored) ? stored : "auto";
+  } catch {
+    return "auto";
+  }
+}
+
+export function saveLanguagePreference(preference: LanguagePreference, storage: Storage = localStorage) {
+  try {
+    storage.setItem(LANGUAGE_STORAGE_KEY, preference);
+  } catch (error) {
+    log.warn("Could not persist language preference", error);
+  }
+}
+
+/** The language to recognize the next turn in, given how the last one was heard. */
+export function pickAutoLanguage(
+  current: LanguageCode,
+  result: { transcript: string; confidence: number },
+  lowConfidenceTurns = 0,
+): AutoLanguageChoice {
+  if (GUJARATI_SCRIPT.test(result.transcript)) return { language: "gu-IN", lowConfidenceTurns: 0 };
+  // Hindi and Marathi share Devanagari, so only move off a non-Devanagari language
+  if (DEVANAGARI_SCRIPT.test(result.transcript) && current !== "hi-IN" && current !== "mr-IN") {
+    return { language: "hi-IN", lowConfidenceTurns: 0 };
+  }
+
+  // Engines that do not report confidence give 0, which says nothing about the language
+  if (result.confidence === 0 || result.confidence >= AUTO_SWITCH_CONFIDENCE) {
+    return { language: current, lowConfidenceTurns: 0 };
+  }
+  const unsureTurns = lowConfidenceTurns + 1;
+  const index = SUPPORTED_LANGUAGES.findIndex((language) => language.code === current);
+  const candidates = [...SUPPORTED_LANGUAGES.slice(index + 1), ...SUPPORTED_LANGUAGES.slice(0, index)];
+  // Text in another script also says where to go, e.g. English for Latin text from Hindi
+  const writtenIn = LANGUAGE_SCRIPTS[current].test(result.transcript)
+    ? undefined
+    : candidates.find((language) => LANGUAGE_SCRIPTS[language.code].test(result.transcript));
+  if (!writtenIn && unsureTurns < AUTO_SWITCH_LOW_CONFIDENCE_TURNS) {
+    return { language: current, lowConfidenceTurns: unsureTurns };
+  }
+  return { language: (writtenIn ?? candidates[0]).code, lowConfidenceTurns: 0 };
+}
@@ -0,0 +1,36 @@
+import { createLogger } from "@/lib/logger";
+
+// How the microphone is opened. Continuous mode keeps the recognizer running and restarts it
+// whenever it ends; push-to-talk only records while the mic button (or spacebar) is held, one
+// utterance per press, which keeps background chatter in a busy shop out of the conversation.
+// Wake-word mode listens continuously but only answers after the wake phrase (see wake-word.ts).
+
+const log = createLogger("voice:storage");
+
+export const LISTENING_MODES = ["continuous", "push-to-talk", "wake-word"] as const;
+
+export type ListeningMode = (typeof LISTENING_MODES)[number];
+
+export const LISTENING_MODE_STORAGE_KEY = "mithai-voice-mode";
+export const DEFAULT_LISTENING_MODE: ListeningMode = "continuous";
+
+export function isListeningMode(value: unknown): value is ListeningMode {
+  return LISTENING_MODES.some((mode) => mode === value);
+}
+
+export function loadListeningMode(storage: Storage = localStorage): ListeningMode {
+  try {
+    const stored = storage.getItem(LISTENING_MODE_STORAGE_KEY);
+    return isListeningMode(stored) ? stored : DEFAULT_LISTENING_MODE;
+  } catch {
+    return DEFAULT_LISTENING_MODE;
+  }
+}
+
+export function saveListeningMode(mode: ListeningMode, storage: Storage = localStorage) {
+  try {
+    storage.setItem(LISTENING_MODE_STORAGE_KEY, mode);
+  } catch (error) {
+    log.warn("Could not persist listening mode", error);
+  }
+}
@@ -0,0 +1,73 @@
+import { ECHO_CANCELLING_CONSTRAINTS } from "@/lib/voice/echo-guard";
+
+// Microphone permission pre-flight. The Permissions API tells whether asking would show the
+// browser prompt, succeed silently or fail; browsers without it (or without the "microphone"
+// name) report "unknown" and the assistant simply tries the mic.
+
+export type MicPermissionState = "granted" | "denied" | "prompt" | "unknown";
+
+export type BrowserFamily = "chrome" | "edge" | "firefox" | "safari" | "other";
+
+async function queryMicPermission(): Promise<PermissionStatus | null> {
+  if (typeof navigator === "undefined" || !navigator.permissions) return null;
+  try {
+    // "microphone" is missing from lib.dom's PermissionName but supported by Chromium, Firefox and Safari
+    return await navigator.permissions.query({ name: "microphone" as PermissionName });
+  } catch {
+    return null;
+  }
+}
+
+/** Reports the current state, then every change (e.g. re-allowed in site settings). Returns an unsubscribe. */
+export function watchMicPermission(onChange: (state: MicPermissionState) => void): () => void {
+  let status: PermissionStatus | null = null;
+  let cancelled = false;
+  const update = () => {
+    if (status) onChange(status.state);
+  };
+
+  void queryMicPermission().then((result) => {
+    if (cancelled) return;
+    if (!result) {
+      onChange("unknown");
+      return;
+    }
+    status = result;
+    update();
+    status.addEventListener("change", update);
+  });
+
+  return () => {
+    cancelled = true;
+    status?.removeEventListener("change", update);
+  };
+}
+
+/**
+ * Shows the browser's permission prompt by briefly opening the mic. Resolves "denied" when the
+ * customer or a policy refuses; other failures (no microphone at all) are rethrown.
+ */
+export async function requestMicPermission(
+  getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream> = (constraints) =>
+    navigator.mediaDevices.getUserMedia(constraints),
+): Promise<MicPermissionState> {
+  try {
+    const stream = await getUserMedia({ audio: ECHO_CANCELLING_CONSTRAINTS });
+    stream.getTracks().forEach((track) => track.stop());
+    return "granted";
+  } catch (error) {
+    if (error instanceof DOMException && (error.name === "NotAllowedError" || error.name === "SecurityError")) {
+      return "denied";
+    }
+    throw error;
+  }
+}
+
+/** Which browser's settings to describe when the mic is blocked. */
+export function detectBrowserFamily(userAgent: string = navigator.userAgent): BrowserFamily {
+  if (/Edg\//.test(userAgent)) return "edge";
+  if (/Firefox\/|FxiOS\//.test(userAgent)) return "firefox";
+  if (/Chrome\/|CriOS\//.test(userAgent)) return "chrome";
+  if (/Safari\//.test(userAgent)) return "safari";
+  return "other";
+}
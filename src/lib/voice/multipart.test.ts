@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import { getBoundary, parseMultipart } from "@/lib/voice/multipart";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function body(...chunks: (string | Uint8Array)[]) {
+  const bytes = chunks.map((chunk) => (typeof chunk === "string" ? encoder.encode(chunk) : chunk));
+  const joined = new Uint8Array(bytes.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of bytes) {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return joined;
+}
+
+describe("getBoundary", () => {
+  it("reads plain and quoted boundaries", () => {
+    expect(getBoundary("multipart/mixed; boundary=reply-1")).toBe("reply-1");
+    expect(getBoundary('multipart/mixed; boundary="a b;c"; charset=utf-8')).toBe("a b;c");
+    expect(getBoundary("multipart/mixed; BOUNDARY=upper")).toBe("upper");
+  });
+
+  it("is null without a boundary", () => {
+    expect(getBoundary("multipart/mixed")).toBeNull();
+    expect(getBoundary(null)).toBeNull();
+  });
+});
+
+describe("parseMultipart", () => {
+  it("splits parts with their headers and skips the preamble and epilogue", () => {
+    const parts = parseMultipart(
+      body(
+        "preamble\r\n",
+        "--b\r\nContent-Type: application/json\r\n\r\n",
+        '{"text":"Hi"}',
+        "\r\n--b\r\nContent-Type: text/plain; charset=utf-8\r\nX-Part: 2\r\n\r\n",
+        "Two jalebis",
+        "\r\n--b--\r\nepilogue",
+      ),
+      "b",
+    );
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0].headers.get("content-type")).toBe("application/json");
+    expect(decoder.decode(parts[0].body)).toBe('{"text":"Hi"}');
+    expect(parts[1].headers.get("x-part")).toBe("2");
+    expect(decoder.decode(parts[1].body)).toBe("Two jalebis");
+  });
+
+  it("keeps binary bodies byte for byte, CRLFs inside them included", () => {
+    const audio = new Uint8Array([0xff, 0xfb, 0x0d, 0x0a, 0x2d, 0x2d, 0x00]);
+    const [part] = parseMultipart(
+      body("--b\r\nContent-Type: audio/mpeg\r\n\r\n", audio, "\r\n--b--\r\n"),
+      "b",
+    );
+
+    expect(part.body).toEqual(audio);
+  });
+
+  it("reads a part without headers", () => {
+    const [part] = parseMultipart(body("--b\r\n\r\nplain\r\n--b--"), "b");
+
+    expect([...part.headers]).toEqual([]);
+    expect(decoder.decode(part.body)).toBe("plain");
+  });
+
+  it("ignores a part that is never closed", () => {
+    expect(parseMultipart(body("--b\r\nContent-Type: text/plain\r\n\r\ncut off"), "b")).toEqual([]);
+  });
+
+  it("finds nothing in a body without the boundary", () => {
+    expect(parseMultipart(body("just audio"), "b")).toEqual([]);
+  });
+});
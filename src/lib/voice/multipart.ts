@@ -0,0 +1,69 @@
+// Minimal multipart/mixed parser (RFC 2046) for replies that bundle text, metadata and audio.
+// Browsers only parse multipart/form-data natively, so the body is split by hand.
+
+export interface MultipartPart {
+  headers: Headers;
+  body: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function getBoundary(contentType: string | null): string | null {
+  const match = contentType?.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] ?? match[2]).trim() : null;
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function parseHeaders(block: string): Headers {
+  const headers = new Headers();
+  for (const line of block.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+  }
+  return headers;
+}
+
+export function parseMultipart(body: Uint8Array, boundary: string): MultipartPart[] {
+  const delimiter = encoder.encode(`--${boundary}`);
+  const headerEnd = encoder.encode("\r\n\r\n");
+  const parts: MultipartPart[] = [];
+
+  let start = indexOf(body, delimiter, 0);
+  while (start !== -1) {
+    const contentStart = start + delimiter.length;
+    // "--" right after the delimiter closes the body
+    if (body[contentStart] === 0x2d && body[contentStart + 1] === 0x2d) break;
+
+    const next = indexOf(body, delimiter, contentStart);
+    if (next === -1) break;
+
+    // Skip the CRLF after the delimiter and drop the CRLF that belongs to the next delimiter
+    const part = body.subarray(contentStart + 2, body[next - 2] === 0x0d ? next - 2 : next);
+    let headers = new Headers();
+    let content = part;
+    if (part[0] === 0x0d && part[1] === 0x0a) {
+      // No headers: the part starts with the blank line that ends an empty header block
+      content = part.subarray(2);
+    } else {
+      const split = indexOf(part, headerEnd, 0);
+      if (split !== -1) {
+        headers = parseHeaders(decoder.decode(part.subarray(0, split)));
+        content = part.subarray(split + headerEnd.length);
+      }
+    }
+    parts.push({ headers, body: content });
+    start = next;
+  }
+
+  return parts;
+}
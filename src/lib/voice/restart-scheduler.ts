@@ -0,0 +1,79 @@
+// Restarts of the microphone all go through one scheduler. At most one restart is pending at a
+// time, so every caller that wants the mic back (recognizer end, failed reply, interruption)
+// shares it. Each failure since the last success doubles the delay, and after `maxAttempts`
+// failures in a row it gives up instead of spinning on a recognizer that cannot work.
+
+export interface RestartSchedulerOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface RestartScheduler {
+  readonly pending: boolean;
+  /** Failures since the last success. */
+  readonly failures: number;
+  /** Set once `maxAttempts` failures happened in a row; only reset() clears it. */
+  readonly exhausted: boolean;
+  /**
+   * Runs `task` after the current backoff delay. A request while one is pending joins it.
+   * Returns false, without scheduling, once the scheduler is exhausted.
+   */
+  schedule(task: () => void): boolean;
+  recordFailure(): void;
+  recordSuccess(): void;
+  /** Drops the pending restart, if any. */
+  cancel(): void;
+  /** Cancels and forgets all failures, for a fresh start by the customer. */
+  reset(): void;
+}
+
+export function createRestartScheduler({
+  baseDelayMs = 300,
+  maxDelayMs = 5000,
+  maxAttempts = 6,
+}: RestartSchedulerOptions = {}): RestartScheduler {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+
+  const cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    get pending() {
+      return timer !== null;
+    },
+    get failures() {
+      return failures;
+    },
+    get exhausted() {
+      return failures >= maxAttempts;
+    },
+    schedule(task) {
+      if (failures >= maxAttempts) {
+        cancel();
+        return false;
+      }
+      if (timer) return true;
+      const delay = Math.min(baseDelayMs * 2 ** failures, maxDelayMs);
+      timer = setTimeout(() => {
+        timer = null;
+        task();
+      }, delay);
+      return true;
+    },
+    recordFailure() {
+      failures++;
+    },
+    recordSuccess() {
+      failures = 0;
+    },
+    cancel,
+    reset() {
+      cancel();
+      failures = 0;
+    },
+  };
+}
@@ -0,0 +1,64 @@
+// Engine-agnostic speech recognition contract. The conversation logic only talks to this
+// interface, so the Web Speech API can be swapped for another engine or a scripted fake.
+
+export type SpeechRecognizerErrorCode =
+  | "no-speech"
+  | "aborted"
+  | "audio-capture"
+  | "network"
+  | "not-allowed"
+  | "service-not-allowed"
+  | "bad-grammar"
+  | "language-not-supported"
+  | "unknown";
+
+export interface SpeechRecognizerResult {
+  transcript: string;
+  /** 0..1, engines that do not report confidence use 0. */
+  confidence: number;
+  /** Partial results may still change; only final results are complete utterances. */
+  isFinal: boolean;
+}
+
+export interface SpeechRecognizerError {
+  code: SpeechRecognizerErrorCode;
+  message?: string;
+}
+
+export interface SpeechRecognizerHandlers {
+  onStart?: () => void;
+  onResult?: (result: SpeechRecognizerResult) => void;
+  onError?: (error: SpeechRecognizerError) => void;
+  /** Fired whenever capture stops, including after an error. */
+  onEnd?: () => void;
+}
+
+export interface SpeechRecognizerOptions {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+}
+
+export interface SpeechRecognizer {
+  readonly options: SpeechRecognizerOptions;
+  configure(options: Partial<SpeechRecognizerOptions>): void;
+  setHandlers(handlers: SpeechRecognizerHandlers): void;
+  /** Throws a DOMException named InvalidStateError when already running. */
+  start(): void;
+  /** Stops capturing and delivers any pending final result. */
+  stop(): void;
+  /** Stops capturing and discards pending results. */
+  abort(): void;
+}
+
+export type SpeechRecognizerFactory = (options: SpeechRecognizerOptions) => SpeechRecognizer | null;
+
+export const defaultRecognizerOptions: SpeechRecognizerOptions = {
+  lang: "en-US",
+  continuous: true,
+  interimResults: true,
+};
+
+export function isAlreadyStartedError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "InvalidStateError";
+}
@@ -0,0 +1,41 @@
+import { getSourceType, parsePcmFormat, type AudioSink, type AudioSinkHandlers } from "@/lib/voice/audio-sink";
+import { createHtmlAudioSink } from "@/lib/voice/html-audio-sink";
+import { createWebAudioSink } from "@/lib/voice/web-audio-sink";
+
+// Default sink: compressed audio goes through an <audio> element (streamed via MediaSource where
+// supported), raw PCM chunks are scheduled on Web Audio. Only one of the two plays at a time.
+export function createStreamingAudioSink(): AudioSink {
+  const htmlSink = createHtmlAudioSink();
+  const webAudioSink = createWebAudioSink();
+  let active: AudioSink | null = null;
+
+  return {
+    get playing() {
+      return active?.playing ?? false;
+    },
+    setHandlers(handlers: AudioSinkHandlers) {
+      htmlSink.setHandlers(handlers);
+      webAudioSink.setHandlers(handlers);
+    },
+    play(source, mimeType) {
+      active?.stop();
+      active = parsePcmFormat(getSourceType(source, mimeType)) ? webAudioSink : htmlSink;
+      return active.play(source, mimeType);
+    },
+    stop() {
+      active?.stop();
+    },
+    getWaveform(samples) {
+      return active?.getWaveform(samples) ?? false;
+    },
+    setVolume(volume) {
+      htmlSink.setVolume(volume);
+      webAudioSink.setVolume(volume);
+    },
+    dispose() {
+      htmlSink.dispose();
+      webAudioSink.dispose();
+      active = null;
+    },
+  };
+}
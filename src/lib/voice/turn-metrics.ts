@@ -0,0 +1,83 @@
+// Where the time goes in a turn. Each stage is recorded as a Performance API mark named
+// voice:turn-<id>:<stage>, so turns also show up in the browser's performance panel. When a turn
+// is over its marks become offsets from the end of the customer's utterance (the final transcript,
+// or submitting a typed message) and recent turns are summarised as p50/p95 per stage.
+
+export const TURN_MARKS = [
+  "speech-end",
+  "request-sent",
+  "first-byte",
+  "full-body",
+  "playback-start",
+  "playback-end",
+] as const;
+
+export type TurnMark = (typeof TURN_MARKS)[number];
+/** The stages measured from speech end. */
+export type TurnStage = Exclude<TurnMark, "speech-end">;
+
+export interface TurnTiming {
+  turnId: number;
+  /** Milliseconds after speech end; stages the turn never reached are missing. */
+  offsets: Partial<Record<TurnMark, number>>;
+}
+
+export interface TurnStageStats {
+  stage: TurnStage;
+  p50: number;
+  p95: number;
+  /** Turns that reached this stage. */
+  count: number;
+}
+
+/** Turns kept for the p50/p95 summary. */
+export const TURN_METRICS_LIMIT = 50;
+
+function markName(turnId: number, mark: TurnMark) {
+  return `voice:turn-${turnId}:${mark}`;
+}
+
+export function markTurn(turnId: number, mark: TurnMark, timeline: Performance = performance) {
+  timeline.mark(markName(turnId, mark));
+}
+
+/**
+ * Reads a finished turn's marks and clears them so a long-running kiosk does not pile them up.
+ * Returns null for turns without a speech end mark, e.g. one that was already collected.
+ */
+export function collectTurnTiming(turnId: number, timeline: Performance = performance): TurnTiming | null {
+  const times = new Map<TurnMark, number>();
+  for (const mark of TURN_MARKS) {
+    const entries = timeline.getEntriesByName(markName(turnId, mark), "mark");
+    if (entries.length > 0) times.set(mark, entries[entries.length - 1].startTime);
+    timeline.clearMarks(markName(turnId, mark));
+  }
+
+  const start = times.get("speech-end");
+  if (start === undefined) return null;
+
+  const end = times.get("playback-end");
+  if (end !== undefined) timeline.measure(`voice:turn-${turnId}`, { start, end });
+
+  const offsets: TurnTiming["offsets"] = {};
+  times.forEach((time, mark) => {
+    offsets[mark] = Math.round(time - start);
+  });
+  return { turnId, offsets };
+}
+
+/** Nearest-rank percentile of values sorted ascending */
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function summarizeTurnTimings(timings: TurnTiming[]): TurnStageStats[] {
+  return TURN_MARKS.filter((mark): mark is TurnStage => mark !== "speech-end").flatMap((stage) => {
+    const values = timings
+      .map((timing) => timing.offsets[stage])
+      .filter((value): value is number => value !== undefined)
+      .sort((a, b) => a - b);
+    if (values.length === 0) return [];
+    return [{ stage, p50: percentile(values, 50), p95: percentile(values, 95), count: values.length }];
+  });
+}
@@ -0,0 +1,42 @@
+// Voice activity detection contract. It listens to the microphone on its own, independently of
+// the speech recognizer, so the assistant can react the moment the customer starts talking over
+// a reply instead of waiting for the recognizer to make sense of the words.
+
+export interface VoiceActivityOptions {
+  /** Input level in dBFS at or above which a frame counts as speech. */
+  thresholdDb: number;
+  /** How long the level must stay above the threshold before speech starts. */
+  attackMs: number;
+  /** How long speech is held after the level drops, so pauses between words do not end it. */
+  hangoverMs: number;
+}
+
+export interface VoiceActivityHandlers {
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+}
+
+export interface VoiceActivityDetector {
+  readonly options: VoiceActivityOptions;
+  readonly running: boolean;
+  readonly speaking: boolean;
+  /** Latest input level in dBFS, for metering; SILENCE_DB while stopped. */
+  readonly levelDb: number;
+  configure(options: Partial<VoiceActivityOptions>): void;
+  setHandlers(handlers: VoiceActivityHandlers): void;
+  /** Opens the microphone; rejects when it is unavailable or permission is refused. */
+  start(): Promise<void>;
+  /** Releases the microphone without firing onSpeechEnd. */
+  stop(): void;
+}
+
+export type VoiceActivityDetectorFactory = (options: VoiceActivityOptions) => VoiceActivityDetector | null;
+
+/** Level reported for digital silence instead of -Infinity. */
+export const SILENCE_DB = -100;
+
+export const defaultVoiceActivityOptions: VoiceActivityOptions = {
+  thresholdDb: -45,
+  attackMs: 60,
+  hangoverMs: 400,
+};
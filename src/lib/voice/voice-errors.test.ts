@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+
+import { VoiceBackendError } from "@/lib/voice/backend-client";
+import { fromBackendError, fromPlaybackError } from "@/lib/voice/voice-errors";
+
+describe("fromBackendError", () => {
+  it("offers to send a turn again when the backend could not be reached", () => {
+    const error = new VoiceBackendError("network", "offline");
+    expect(fromBackendError(error, "two jalebi")).toMatchObject({ category: "backend-offline", retryText: "two jalebi" });
+  });
+
+  it.each([
+    ["timed out", new VoiceBackendError("timeout", "slow"), "backend-timeout"],
+    ["was refused", new VoiceBackendError("http", "bad request", { status: 400 }), "backend-rejected"],
+  ])("never sends a turn that %s again", (_reason, error, category) => {
+    const voiceError = fromBackendError(error, "two jalebi");
+    expect(voiceError.category).toBe(category);
+    expect(voiceError.retryText).toBeUndefined();
+  });
+});
+
+describe("fromPlaybackError", () => {
+  it("offers to replay the reply instead of sending the turn again", () => {
+    const voiceError = fromPlaybackError(new DOMException("Autoplay blocked", "NotAllowedError"), 4);
+    expect(voiceError).toMatchObject({ category: "playback-blocked", replayTurnId: 4 });
+    expect(voiceError.retryText).toBeUndefined();
+  });
+
+  it("reports a reply that stopped arriving as the backend's failure, with nothing to replay", () => {
+    const voiceError = fromPlaybackError(new VoiceBackendError("timeout", "stalled"), 4);
+    expect(voiceError.category).toBe("backend-timeout");
+    expect(voiceError.replayTurnId).toBeUndefined();
+  });
+
+  it("reports other playback errors as failed", () => {
+    expect(fromPlaybackError(new Error("decode"), 4).category).toBe("playback-failed");
+  });
+});
@@ -0,0 +1,92 @@
+import { VoiceBackendError } from "@/lib/voice/backend-client";
+import type { SpeechRecognizerError } from "@/lib/voice/speech-recognizer";
+
+// Everything that can go wrong in a turn, reduced to the categories the customer is told about.
+// Recognition errors come from the recognizer, backend errors from the client and playback
+// errors from the sink; each category maps to one localised message in the UI.
+
+export type VoiceErrorCategory =
+  | "mic-permission"
+  | "mic-unavailable"
+  | "no-speech"
+  | "speech-network"
+  | "speech-language"
+  | "speech-failed"
+  | "backend-offline"
+  | "backend-timeout"
+  | "backend-busy"
+  | "backend-server"
+  | "backend-rejected"
+  | "backend-invalid"
+  | "playback-blocked"
+  | "playback-failed";
+
+export interface VoiceError {
+  category: VoiceErrorCategory;
+  /** The utterance of the failed turn; set when sending it again is worth offering. */
+  retryText?: string;
+  /** The turn whose reply arrived but could not be played; it can be played again without resending. */
+  replayTurnId?: number;
+  /** HTTP status for backend errors. */
+  status?: number;
+  cause?: unknown;
+}
+
+/** Null for errors the customer does not need to hear about, like an aborted recognizer. */
+export function fromRecognizerError(error: SpeechRecognizerError): VoiceError | null {
+  switch (error.code) {
+    case "aborted":
+      return null;
+    case "not-allowed":
+    case "service-not-allowed":
+      return { category: "mic-permission", cause: error };
+    case "audio-capture":
+      return { category: "mic-unavailable", cause: error };
+    case "no-speech":
+      return { category: "no-speech", cause: error };
+    case "network":
+      return { category: "speech-network", cause: error };
+    case "language-not-supported":
+      return { category: "speech-language", cause: error };
+    default:
+      return { category: "speech-failed", cause: error };
+  }
+}
+
+function backendCategory(error: unknown): VoiceErrorCategory {
+  if (!(error instanceof VoiceBackendError)) return "backend-invalid";
+  switch (error.kind) {
+    case "network":
+      return "backend-offline";
+    case "timeout":
+      return "backend-timeout";
+    case "http":
+      if (error.status === 429) return "backend-busy";
+      return (error.status ?? 0) >= 500 ? "backend-server" : "backend-rejected";
+    default:
+      return "backend-invalid";
+  }
+}
+
+export function fromBackendError(error: unknown, utterance: string): VoiceError {
+  const category = backendCategory(error);
+  return {
+    category,
+    // A request the backend refused outright would only be refused again, and one that timed out
+    // may still have gone through, so sending it again could place the order twice
+    retryText: category === "backend-rejected" || category === "backend-timeout" ? undefined : utterance,
+    status: error instanceof VoiceBackendError ? error.status : undefined,
+    cause: error,
+  };
+}
+
+// The backend has already handled the turn, so only its reply is played again, never resent
+export function fromPlaybackError(error: unknown, turnId: number): VoiceError {
+  // A streamed reply that stopped arriving failed at the backend, and there is nothing to replay
+  if (error instanceof VoiceBackendError) {
+    return { category: backendCategory(error), status: error.status, cause: error };
+  }
+  // Autoplay policies reject play() until the page has had a tap; the retry button is that tap
+  const blocked = error instanceof DOMException && error.name === "NotAllowedError";
+  return { category: blocked ? "playback-blocked" : "playback-failed", replayTurnId: turnId, cause: error };
+}
@@ -0,0 +1,66 @@
+// Wake-phrase activation for hands-free kiosks. The recognizer keeps listening, but transcripts
+// are ignored until one of the wake phrases is heard; the utterance after it is the turn. A
+// phrase followed by more speech ("Hey Mithai, two boxes of kaju katli") is a turn by itself.
+//
+// Phrases come from `?wake=` in the page URL or VITE_VOICE_WAKE_PHRASE at build time, as a
+// comma-separated list so a kiosk can accept the phrase in every script it is spoken in.
+
+export const DEFAULT_WAKE_PHRASES = ["Hey Mithai", "हे मिठाई", "હે મીઠાઈ"];
+
+/** How long the assistant stays armed after the wake phrase alone. */
+export const WAKE_ARMED_TIMEOUT = 8000;
+
+export interface WakeWordEnv {
+  VITE_VOICE_WAKE_PHRASE?: string;
+}
+
+export type WakeWordMatch = { heard: false } | { heard: true; remainder: string };
+
+// Anything that is not a letter, digit or combining mark separates words
+const SEPARATOR = "[^\\p{L}\\p{N}\\p{M}]+";
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function parseWakePhrases(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+}
+
+export function resolveWakePhrases(
+  search: string = window.location.search,
+  env: WakeWordEnv = import.meta.env,
+): string[] {
+  const fromQuery = parseWakePhrases(new URLSearchParams(search).get("wake"));
+  if (fromQuery.length > 0) return fromQuery;
+  const fromEnv = parseWakePhrases(env.VITE_VOICE_WAKE_PHRASE);
+  return fromEnv.length > 0 ? fromEnv : DEFAULT_WAKE_PHRASES;
+}
+
+/** Builds a matcher that tolerates case, punctuation and spacing differences in the transcript. */
+export function createWakeWordMatcher(phrases: readonly string[]) {
+  const patterns = phrases
+    .map((phrase) => phrase.normalize("NFC").split(new RegExp(SEPARATOR, "u")).filter(Boolean))
+    .filter((words) => words.length > 0)
+    .map(
+      (words) =>
+        new RegExp(`(?:^|${SEPARATOR})${words.map(escapeRegExp).join(SEPARATOR)}(?=${SEPARATOR}|$)`, "iu"),
+    );
+
+  return (transcript: string): WakeWordMatch => {
+    const text = transcript.normalize("NFC");
+    for (const pattern of patterns) {
+      const match = pattern.exec(text);
+      if (!match) continue;
+      const remainder = text
+        .slice(match.index + match[0].length)
+        .replace(new RegExp(`^${SEPARATOR}`, "u"), "")
+        .trim();
+      return { heard: true, remainder };
+    }
+    return { heard: false };
+  };
+}
@@ -0,0 +1,243 @@
+import {
+  getSourceType,
+  parsePcmFormat,
+  readAudioSource,
+  type AudioSink,
+  type AudioSinkHandlers,
+  type AudioSource,
+  type PcmFormat,
+  WAVEFORM_SIZE,
+} from "@/lib/voice/audio-sink";
+
+const PROGRESS_INTERVAL = 250;
+// Time constant of volume changes, short enough to feel instant without clicking
+const VOLUME_RAMP = 0.03;
+
+export interface WebAudioSinkOptions {
+  /** Shared context; one is created lazily on first play when omitted. */
+  context?: AudioContext;
+}
+
+interface Playback {
+  sources: Set<AudioBufferSourceNode>;
+  progressTimer: ReturnType<typeof setInterval>;
+  reader?: ReadableStreamDefaultReader<Uint8Array>;
+  /** No more buffers will be scheduled once the source is exhausted. */
+  complete: boolean;
+  startedAt: number;
+  /** Context time at which the last scheduled buffer finishes. */
+  endsAt: number;
+}
+
+// Converts interleaved signed 16-bit samples; a trailing partial frame is returned for the next chunk
+function decodePcmChunk(context: AudioContext, bytes: Uint8Array, format: PcmFormat) {
+  const frameSize = 2 * format.channels;
+  const frames = Math.floor(bytes.length / frameSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, frames * frameSize);
+  const buffer = context.createBuffer(format.channels, Math.max(frames, 1), format.sampleRate);
+
+  for (let channel = 0; channel < format.channels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frames; frame++) {
+      samples[frame] = view.getInt16(frame * frameSize + channel * 2, format.littleEndian) / 0x8000;
+    }
+  }
+  return { buffer: frames > 0 ? buffer : null, rest: bytes.slice(frames * frameSize) };
+}
+
+function concat(a: Uint8Array, b: Uint8Array) {
+  if (a.length === 0) return b;
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+}
+
+export function createWebAudioSink({ context: sharedContext }: WebAudioSinkOptions = {}): AudioSink {
+  let handlers: AudioSinkHandlers = {};
+  let context = sharedContext ?? null;
+  let output: GainNode | null = null;
+  let analyser: AnalyserNode | null = null;
+  let volume = 1;
+  let current: Playback | null = null;
+  let generation = 0;
+
+  const getContext = () => {
+    if (!context) context = new AudioContext();
+    return context;
+  };
+
+  // Every buffer goes through one gain node so volume changes reach audio already scheduled,
+  // and then an analyser for the waveform
+  const getOutput = (audioContext: AudioContext) => {
+    if (!output) {
+      output = audioContext.createGain();
+      output.gain.value = volume;
+      analyser = audioContext.createAnalyser();
+      analyser.fftSize = WAVEFORM_SIZE;
+      output.connect(analyser);
+      analyser.connect(audioContext.destination);
+    }
+    return output;
+  };
+
+  const release = () => {
+    generation++;
+    if (!current) return;
+    const { sources, progressTimer, reader } = current;
+    current = null;
+    clearInterval(progressTimer);
+    reader?.cancel().catch(() => {});
+    for (const source of sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (error) {
+        // Already stopped
+      }
+      source.disconnect();
+    }
+  };
+
+  const finishIfDrained = (playback: Playback) => {
+    if (current !== playback || !playback.complete || playback.sources.size > 0) return;
+    release();
+    handlers.onEnded?.();
+  };
+
+  const createPlayback = (audioContext: AudioContext): Playback => {
+    const playback: Playback = {
+      sources: new Set(),
+      complete: false,
+      startedAt: audioContext.currentTime,
+      endsAt: audioContext.currentTime,
+      progressTimer: setInterval(() => {
+        handlers.onProgress?.({
+          currentTime: audioContext.currentTime - playback.startedAt,
+          duration: playback.complete ? playback.endsAt - playback.startedAt : NaN,
+        });
+      }, PROGRESS_INTERVAL),
+    };
+    current = playback;
+    return playback;
+  };
+
+  // Queues a buffer right after the previous one so consecutive chunks play gaplessly
+  const schedule = (audioContext: AudioContext, playback: Playback, buffer: AudioBuffer) => {
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(getOutput(audioContext));
+    const startAt = Math.max(audioContext.currentTime, playback.endsAt);
+    // Nothing scheduled yet, so playback really begins with this buffer
+    if (playback.endsAt === playback.startedAt) playback.startedAt = startAt;
+    playback.endsAt = startAt + buffer.duration;
+    playback.sources.add(source);
+    source.onended = () => {
+      playback.sources.delete(source);
+      finishIfDrained(playback);
+    };
+    source.start(startAt);
+  };
+
+  const streamPcm = async (audioContext: AudioContext, stream: ReadableStream<Uint8Array>, format: PcmFormat) => {
+    const playback = createPlayback(audioContext);
+    const reader = stream.getReader();
+    playback.reader = reader;
+    let rest = new Uint8Array(0);
+
+    const readChunk = async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (current !== playback) throw new DOMException("Playback was stopped", "AbortError");
+        if (done) return false;
+        const decoded = decodePcmChunk(audioContext, concat(rest, value), format);
+        rest = decoded.rest;
+        if (decoded.buffer) {
+          schedule(audioContext, playback, decoded.buffer);
+          return true;
+        }
+      }
+    };
+
+    try {
+      // Resolve as soon as the first chunk is audible, then keep feeding in the background
+      if (!(await readChunk())) {
+        release();
+        throw new Error("Audio stream was empty");
+      }
+    } catch (error) {
+      if (current === playback) release();
+      throw error;
+    }
+
+    void (async () => {
+      try {
+        while (await readChunk());
+        playback.complete = true;
+        finishIfDrained(playback);
+      } catch (error) {
+        if (current !== playback) return;
+        release();
+        handlers.onError?.(error instanceof Error ? error : new Error("Audio stream failed"));
+      }
+    })();
+  };
+
+  return {
+    get playing() {
+      return current !== null;
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    async play(input: AudioSource, mimeType?: string) {
+      release();
+      const playGeneration = generation;
+      const type = getSourceType(input, mimeType);
+
+      const audioContext = getContext();
+      // Contexts created before a user gesture start suspended
+      if (audioContext.state === "suspended") await audioContext.resume();
+
+      const pcmFormat = parsePcmFormat(type);
+      if (pcmFormat && !(input instanceof Blob)) {
+        if (playGeneration !== generation) throw new DOMException("Playback was stopped", "AbortError");
+        return streamPcm(audioContext, input, pcmFormat);
+      }
+
+      const blob = await readAudioSource(input, type);
+      const buffer = pcmFormat
+        ? decodePcmChunk(audioContext, new Uint8Array(await blob.arrayBuffer()), pcmFormat).buffer
+        : await audioContext.decodeAudioData(await blob.arrayBuffer());
+      if (playGeneration !== generation) throw new DOMException("Playback was stopped", "AbortError");
+      if (!buffer) throw new Error("Audio reply was empty");
+
+      const playback = createPlayback(audioContext);
+      playback.complete = true;
+      schedule(audioContext, playback, buffer);
+    },
+    stop: release,
+    setVolume(next) {
+      volume = next;
+      if (output && context) output.gain.setTargetAtTime(next, context.currentTime, VOLUME_RAMP);
+    },
+    getWaveform(samples) {
+      if (!current || !analyser) return false;
+      analyser.getFloatTimeDomainData(samples);
+      return true;
+    },
+    dispose() {
+      release();
+      handlers = {};
+      output?.disconnect();
+      analyser?.disconnect();
+      output = null;
+      analyser = null;
+      // Only close contexts this sink created itself
+      if (context && !sharedContext) {
+        void context.close();
+        context = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { ECHO_CANCELLING_CONSTRAINTS } from "@/lib/voice/echo-guard";
+import {
+  SILENCE_DB,
+  type VoiceActivityDetector,
+  type VoiceActivityHandlers,
+  type VoiceActivityOptions,
+} from "@/lib/voice/voice-activity";
+
+const FRAME_INTERVAL = 20;
+const FFT_SIZE = 1024;
+
+export interface WebAudioVadOptions {
+  getUserMedia?: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  createContext?: () => AudioContext;
+}
+
+export function isWebAudioVadSupported(): boolean {
+  return typeof AudioContext !== "undefined" && typeof navigator !== "undefined" && !!navigator.mediaDevices;
+}
+
+function levelDb(samples: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? Math.max(20 * Math.log10(rms), SILENCE_DB) : SILENCE_DB;
+}
+
+// Energy-based VAD on an AnalyserNode: a level above the threshold for `attackMs` starts speech,
+// and it ends once the level has stayed below for `hangoverMs`.
+export function createWebAudioVoiceActivityDetector(
+  options: VoiceActivityOptions,
+  {
+    getUserMedia = (constraints) => navigator.mediaDevices.getUserMedia(constraints),
+    createContext = () => new AudioContext(),
+  }: WebAudioVadOptions = {},
+): VoiceActivityDetector | null {
+  if (!isWebAudioVadSupported()) return null;
+
+  let handlers: VoiceActivityHandlers = {};
+  let currentOptions = { ...options };
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let frameTimer: ReturnType<typeof setInterval> | null = null;
+  let speaking = false;
+  let level = SILENCE_DB;
+  let aboveSince: number | null = null;
+  let belowSince: number | null = null;
+  // Bumped on every stop so a start() still waiting for the microphone knows it was cancelled
+  let generation = 0;
+
+  const release = () => {
+    generation++;
+    if (frameTimer) clearInterval(frameTimer);
+    frameTimer = null;
+    stream?.getTracks().forEach((track) => track.stop());
+    stream = null;
+    void context?.close();
+    context = null;
+    speaking = false;
+    level = SILENCE_DB;
+    aboveSince = null;
+    belowSince = null;
+  };
+
+  const analyse = (level: number, now: number) => {
+    const { thresholdDb, attackMs, hangoverMs } = currentOptions;
+    if (level >= thresholdDb) {
+      belowSince = null;
+      aboveSince ??= now;
+      if (!speaking && now - aboveSince >= attackMs) {
+        speaking = true;
+        handlers.onSpeechStart?.();
+      }
+      return;
+    }
+
+    aboveSince = null;
+    if (!speaking) return;
+    belowSince ??= now;
+    if (now - belowSince >= hangoverMs) {
+      speaking = false;
+      belowSince = null;
+      handlers.onSpeechEnd?.();
+    }
+  };
+
+  return {
+    get options() {
+      return currentOptions;
+    },
+    get running() {
+      return frameTimer !== null;
+    },
+    get speaking() {
+      return speaking;
+    },
+    get levelDb() {
+      return level;
+    },
+    configure(next) {
+      currentOptions = { ...currentOptions, ...next };
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    async start() {
+      if (stream) return;
+      const startGeneration = generation;
+      // The browser's echo canceller keeps the assistant's own voice from counting as speech
+      const media = await getUserMedia({ audio: ECHO_CANCELLING_CONSTRAINTS });
+      if (startGeneration !== generation || stream) {
+        media.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      const audioContext = createContext();
+      stream = media;
+      context = audioContext;
+      if (audioContext.state === "suspended") await audioContext.resume();
+      if (startGeneration !== generation) return;
+
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = FFT_SIZE;
+      // Analysed only, never connected to the speakers
+      audioContext.createMediaStreamSource(media).connect(analyser);
+
+      const samples = new Float32Array(analyser.fftSize);
+      frameTimer = setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        level = levelDb(samples);
+        analyse(level, performance.now());
+      }, FRAME_INTERVAL);
+    },
+    stop: release,
+  };
+}
@@ -0,0 +1,117 @@
+import type {
+  SpeechRecognizer,
+  SpeechRecognizerErrorCode,
+  SpeechRecognizerHandlers,
+  SpeechRecognizerOptions,
+} from "@/lib/voice/speech-recognizer";
+
+// lib.dom ships the result types but not the recognizer itself, which is still prefixed in Chrome and Safari
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onstart: (() => void) | null;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string; message?: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const KNOWN_ERROR_CODES: SpeechRecognizerErrorCode[] = [
+  "no-speech",
+  "aborted",
+  "audio-capture",
+  "network",
+  "not-allowed",
+  "service-not-allowed",
+  "bad-grammar",
+  "language-not-supported",
+];
+
+function getWebSpeechConstructor(): WebSpeechRecognitionConstructor | null {
+  if (typeof window === "undefined") return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+export function isWebSpeechSupported(): boolean {
+  return getWebSpeechConstructor() !== null;
+}
+
+export type WebSpeechUnavailableReason = "insecure-context" | "unsupported";
+
+/** Why voice input is missing: browsers only expose the microphone to pages served over https. */
+export function getWebSpeechUnavailableReason(): WebSpeechUnavailableReason | null {
+  if (isWebSpeechSupported()) return null;
+  return typeof window !== "undefined" && !window.isSecureContext ? "insecure-context" : "unsupported";
+}
+
+export function createWebSpeechRecognizer(options: SpeechRecognizerOptions): SpeechRecognizer | null {
+  const SpeechRecognition = getWebSpeechConstructor();
+  if (!SpeechRecognition) return null;
+
+  const recognition = new SpeechRecognition();
+  let handlers: SpeechRecognizerHandlers = {};
+  let currentOptions = { ...options };
+
+  const applyOptions = () => {
+    recognition.lang = currentOptions.lang;
+    recognition.continuous = currentOptions.continuous;
+    recognition.interimResults = currentOptions.interimResults;
+  };
+  applyOptions();
+
+  recognition.onstart = () => handlers.onStart?.();
+
+  recognition.onresult = (event) => {
+    // Finals are reported one by one; the still-changing tail is reported as a single interim result
+    let interim = "";
+    let interimConfidence = 0;
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      const best = result[0];
+      if (!best) continue;
+      if (!result.isFinal) {
+        interim += best.transcript;
+        interimConfidence = best.confidence ?? 0;
+        continue;
+      }
+      handlers.onResult?.({
+        transcript: best.transcript,
+        confidence: best.confidence ?? 0,
+        isFinal: true,
+      });
+    }
+    if (interim.trim()) handlers.onResult?.({ transcript: interim, confidence: interimConfidence, isFinal: false });
+  };
+
+  recognition.onerror = (event) => {
+    const code = KNOWN_ERROR_CODES.find((known) => known === event.error) ?? "unknown";
+    handlers.onError?.({ code, message: event.message || event.error });
+  };
+
+  recognition.onend = () => handlers.onEnd?.();
+
+  return {
+    get options() {
+      return currentOptions;
+    },
+    configure(next) {
+      currentOptions = { ...currentOptions, ...next };
+      applyOptions();
+    },
+    setHandlers(next) {
+      handlers = next;
+    },
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+    abort: () => recognition.abort(),
+  };
+}
@@ -1,20 +1,25 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { useI18n } from "@/hooks/use-i18n";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("router");
 
 const NotFound = () => {
   const location = useLocation();
+  const { t } = useI18n();
 
   useEffect(() => {
-    console.error("404 Error: User attempted to access non-existent route:", location.pathname);
+    log.error("404 Error: User attempted to access non-existent route", location.pathname);
   }, [location.pathname]);
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
-        <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
+        <h1 className="mb-4 text-4xl font-bold">{t("notFound.title")}</h1>
+        <p className="mb-4 text-xl text-gray-600">{t("notFound.message")}</p>
         <a href="/" className="text-blue-500 underline hover:text-blue-700">
-          Return to Home
+          {t("notFound.home")}
         </a>
       </div>
     </div>
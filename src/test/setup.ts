@@ -0,0 +1,4 @@
+import { setLogLevel } from "@/lib/logger";
+
+// Tests drive failures on purpose; only unexpected errors belong in the output
+setLogLevel("error");
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_VOICE_WEBHOOK_URL?: string;
+  readonly VITE_VOICE_MIRROR_URL?: string;
+  readonly VITE_VOICE_ENV_LABEL?: string;
+  readonly VITE_VOICE_WAKE_PHRASE?: string;
+}